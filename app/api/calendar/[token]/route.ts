@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdminClient } from '../../../lib/supabase-admin'
+import { DatabaseSubscription, fromDatabaseSubscription } from '../../../lib/subscriptions'
+import { NotificationTimeframe } from '../../../lib/notifications'
+import { buildCalendar } from '../../../lib/ical'
+import { convertEndedTrials } from '../../../lib/trials'
+import { loadMemberWorkspaceIds } from '../../../lib/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+// Serves a user's renewals as an iCalendar feed, identified by their secret feed token.
+// Calendar apps subscribe to /api/calendar/<token>.ics
+export async function GET(request: Request, { params }: { params: { token: string } }) {
+  const token = params.token.replace(/\.ics$/, '')
+  if (!/^[a-f0-9]{32,}$/.test(token)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const supabase = getSupabaseAdminClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'Calendar feeds are not configured' }, { status: 500 })
+  }
+
+  try {
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .single()
+
+    if (feedError || !feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    // Renewals from every workspace the user belongs to
+    const workspaceIds = await loadMemberWorkspaceIds(supabase, feed.user_id)
+    const { data: rows, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .in('workspace_id', workspaceIds)
+
+    if (subscriptionsError) {
+      throw new Error(subscriptionsError.message)
+    }
+
+    const { data: settings } = await supabase
+      .from('notification_settings')
+      .select('timeframe')
+      .eq('user_id', feed.user_id)
+      .single()
+
+    const { subscriptions } = convertEndedTrials((rows || []).map((row: DatabaseSubscription) => fromDatabaseSubscription(row)))
+    const calendar = buildCalendar(subscriptions, {
+      timeframe: (settings?.timeframe as NotificationTimeframe) || '3 days',
+    })
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="renewals.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    })
+  } catch (err: any) {
+    console.error('Error building calendar feed:', err)
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 })
+  }
+}
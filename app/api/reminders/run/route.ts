@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdminClient } from '../../../lib/supabase-admin'
+import { getEmailTransport } from '../../../lib/email'
+import { runRenewalReminders } from '../../../lib/reminders'
+
+export const dynamic = 'force-dynamic'
+
+// Sends renewal reminder emails. Meant to be called on a schedule (e.g. a daily cron)
+// with "Authorization: Bearer <CRON_SECRET>".
+async function handleRun(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('Missing CRON_SECRET environment variable')
+    return NextResponse.json({ error: 'Reminders are not configured' }, { status: 500 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabase = getSupabaseAdminClient()
+  if (!supabase) {
+    return NextResponse.json({ error: 'Reminders are not configured' }, { status: 500 })
+  }
+
+  try {
+    const result = await runRenewalReminders(supabase, getEmailTransport())
+    return NextResponse.json(result, { status: result.errors.length > 0 ? 207 : 200 })
+  } catch (err: any) {
+    console.error('Error running renewal reminders:', err)
+    return NextResponse.json({ error: err.message || 'Failed to run reminders' }, { status: 500 })
+  }
+}
+
+export async function GET(request: Request) {
+  return handleRun(request)
+}
+
+export async function POST(request: Request) {
+  return handleRun(request)
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdminClient } from '../../../lib/supabase-admin'
+import { getEmailTransport, getSiteUrl } from '../../../lib/email'
+import { sendWorkspaceInvitation } from '../../../lib/workspace-invitations'
+import { INVITE_ROLES, WorkspaceRole } from '../../../lib/workspaces'
+
+export const dynamic = 'force-dynamic'
+
+// Invites someone to a workspace by email. Called from the workspace settings page
+// with "Authorization: Bearer <Supabase access token>" of the workspace owner.
+export async function POST(request: Request) {
+  const supabase = getSupabaseAdminClient()
+  const siteUrl = getSiteUrl()
+  if (!supabase || !siteUrl) {
+    return NextResponse.json({ error: 'Invitations are not configured' }, { status: 500 })
+  }
+
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer /, '')
+  const { data: userData } = accessToken ? await supabase.auth.getUser(accessToken) : { data: null }
+  const user = userData?.user
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const workspaceId = typeof body?.workspaceId === 'string' ? body.workspaceId : ''
+  const email = typeof body?.email === 'string' ? body.email.trim() : ''
+  const role = body?.role as WorkspaceRole
+  if (!workspaceId || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || !INVITE_ROLES.includes(role)) {
+    return NextResponse.json({ error: 'Invalid invitation' }, { status: 400 })
+  }
+
+  try {
+    await sendWorkspaceInvitation(supabase, getEmailTransport(), {
+      workspaceId,
+      email,
+      role,
+      invitedBy: user.id,
+      inviterEmail: user.email,
+      origin: siteUrl,
+    })
+    return NextResponse.json({ success: true })
+  } catch (err: any) {
+    console.error('Error sending workspace invitation:', err)
+    return NextResponse.json({ error: err.message || 'Failed to send invitation' }, { status: 400 })
+  }
+}
@@ -1,73 +1,55 @@
-import { createServerClient } from '@supabase/ssr'
 import { NextResponse } from 'next/server'
-import { cookies } from 'next/headers'
+import { EmailOtpType } from '@supabase/supabase-js'
+import { getSupabaseServerClient } from '../../lib/supabase-server'
+import { getSafeRedirectPath } from '../../lib/session'
 
+// Where Google sign in and the links in Supabase's emails (confirm signup, magic link,
+// reset password) come back to. PKCE links carry a code to exchange; email templates
+// using {{ .TokenHash }} carry a token_hash and type to verify instead.
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get('code')
-  const error = requestUrl.searchParams.get('error')
-  const next = requestUrl.searchParams.get('next') || '/dashboard'
+  const tokenHash = requestUrl.searchParams.get('token_hash')
+  const type = requestUrl.searchParams.get('type') as EmailOtpType | null
+  const error = requestUrl.searchParams.get('error_description') || requestUrl.searchParams.get('error')
 
-  // Handle OAuth errors
+  // Handle OAuth errors, and email links that have expired or were already used
   if (error) {
     console.error('OAuth error:', error)
     return NextResponse.redirect(new URL(`/?error=${encodeURIComponent(error)}`, request.url))
   }
 
-  if (code) {
+  if (code || (tokenHash && type)) {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-      if (!supabaseUrl || !supabaseAnonKey) {
-        console.error('Missing Supabase environment variables')
+      // Stores the session in cookies, where middleware.ts and the browser client find it
+      const supabase = getSupabaseServerClient()
+      if (!supabase) {
         return NextResponse.redirect(new URL('/?error=configuration', request.url))
       }
 
-      // Create Supabase client with cookie support using @supabase/ssr
-      const cookieStore = await cookies()
-      const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
-        cookies: {
-          get(name: string) {
-            return cookieStore.get(name)?.value
-          },
-          set(name: string, value: string, options: any) {
-            try {
-              cookieStore.set({ name, value, ...options })
-            } catch (error) {
-              // The `set` method was called from a Server Component.
-              // This can be ignored if you have middleware refreshing
-              // user sessions.
-            }
-          },
-          remove(name: string, options: any) {
-            try {
-              cookieStore.set({ name, value: '', ...options })
-            } catch (error) {
-              // The `delete` method was called from a Server Component.
-              // This can be ignored if you have middleware refreshing
-              // user sessions.
-            }
-          },
-        },
-      })
-
-      const { error: exchangeError } = await supabase.auth.exchangeCodeForSession(code)
+      const { error: exchangeError } = code
+        ? await supabase.auth.exchangeCodeForSession(code)
+        : await supabase.auth.verifyOtp({ token_hash: tokenHash as string, type: type as EmailOtpType })
 
       if (exchangeError) {
         console.error('Error exchanging code for session:', exchangeError)
         return NextResponse.redirect(new URL(`/?error=${encodeURIComponent(exchangeError.message)}`, request.url))
       }
 
-      // Successfully exchanged code for session, redirect to dashboard
+      // Successfully signed in, redirect to dashboard (or wherever the link was for).
+      // next is only followed once signed in, so this route cannot bounce anyone elsewhere.
+      // Password reset links go on to choosing a new password.
+      const next = getSafeRedirectPath(
+        requestUrl.searchParams.get('next'),
+        type === 'recovery' ? '/auth/reset-password' : '/dashboard'
+      )
       return NextResponse.redirect(new URL(next, request.url))
     } catch (err: any) {
-      console.error('Error in OAuth callback:', err)
+      console.error('Error in auth callback:', err)
       return NextResponse.redirect(new URL(`/?error=${encodeURIComponent(err.message || 'Unknown error')}`, request.url))
     }
   }
 
-  // Redirect to the dashboard
-  return NextResponse.redirect(new URL(next, request.url))
+  // Nothing to sign in with; the middleware sends visitors who are not signed in on to sign in
+  return NextResponse.redirect(new URL('/dashboard', request.url))
 }
-
@@ -0,0 +1,84 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { sendPasswordResetEmail } from '../../lib/auth'
+
+// Asks Supabase to email a password reset link. The link signs the user in through
+// /auth/callback and opens /auth/reset-password to choose a new password.
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [isSending, setIsSending] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setEmail(new URLSearchParams(window.location.search).get('email') || '')
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSending(true)
+    setError(null)
+    const result = await sendPasswordResetEmail(email)
+    setIsSending(false)
+
+    if (result.success) {
+      setIsSent(true)
+    } else {
+      setError(result.error || 'Could not send the reset email')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-gray-900 rounded-2xl p-8 border border-gray-800">
+        <h1 className="text-xl font-bold text-white mb-2">Reset your password</h1>
+
+        {isSent ? (
+          <p className="text-gray-400 text-sm">
+            If there is an account for <span className="text-white">{email.trim()}</span>, we sent it a link to choose a new password.
+            Open it on this device.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-gray-400 text-sm">
+              Enter the email address you sign in with and we will send you a link to choose a new password.
+            </p>
+
+            {error && (
+              <div className="bg-red-900/30 border border-red-800 text-red-200 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+              placeholder="you@example.com"
+              autoComplete="email"
+              required
+            />
+
+            <button
+              type="submit"
+              disabled={isSending}
+              className="w-full bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+            >
+              {isSending ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <Link
+          href="/"
+          className="block text-center text-gray-400 hover:text-white text-sm mt-6 transition-colors"
+        >
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { isSupabaseAuthenticated, updateSupabasePassword } from '../../lib/auth'
+
+// Opened from a password reset email, after /auth/callback has signed the user in
+export default function ResetPasswordPage() {
+  const router = useRouter()
+  const [hasSession, setHasSession] = useState<boolean | null>(null)
+  const [formData, setFormData] = useState({ password: '', confirmPassword: '' })
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    isSupabaseAuthenticated().then(setHasSession)
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+    const result = await updateSupabasePassword(formData.password, formData.confirmPassword)
+    setIsSaving(false)
+
+    if (result.success) {
+      router.push('/dashboard')
+    } else {
+      setError(result.error || 'Could not change the password')
+    }
+  }
+
+  if (hasSession === null) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pastel-blue mx-auto mb-4"></div>
+          <p className="text-gray-400">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const inputClassName = 'w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent'
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-gray-900 rounded-2xl p-8 border border-gray-800">
+        <h1 className="text-xl font-bold text-white mb-2">Choose a new password</h1>
+
+        {hasSession ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-900/30 border border-red-800 text-red-200 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <input
+              type="password"
+              value={formData.password}
+              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+              className={inputClassName}
+              placeholder="New password"
+              autoComplete="new-password"
+              required
+            />
+            <input
+              type="password"
+              value={formData.confirmPassword}
+              onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+              className={inputClassName}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              required
+            />
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+            >
+              {isSaving ? 'Saving...' : 'Save password'}
+            </button>
+          </form>
+        ) : (
+          <>
+            <p className="text-gray-400 text-sm mb-6">
+              This reset link has expired or was already used. Ask for a new one and open it on this device.
+            </p>
+            <Link
+              href="/auth/forgot-password"
+              className="block w-full text-center bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors touch-target"
+            >
+              Send a new link
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { resendVerificationEmail, sendMagicLink } from '../../lib/auth'
+import { getSafeRedirectPath } from '../../lib/session'
+
+// Shown after signing up with an email address (?mode=signup) or asking for a sign in
+// link (?mode=link). The link in the email goes through /auth/callback to sign the user in.
+export default function VerifyEmailPage() {
+  const [email, setEmail] = useState('')
+  const [mode, setMode] = useState<'signup' | 'link'>('signup')
+  const [next, setNext] = useState('/dashboard')
+  const [isSending, setIsSending] = useState(false)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setEmail(params.get('email') || '')
+    setMode(params.get('mode') === 'link' ? 'link' : 'signup')
+    setNext(getSafeRedirectPath(params.get('next')))
+  }, [])
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setMessage(null)
+    const result = mode === 'link'
+      ? await sendMagicLink(email, next)
+      : await resendVerificationEmail(email, next)
+    setIsSending(false)
+
+    if (result.success) {
+      setMessage({ type: 'success', text: 'Email sent again' })
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Could not send the email' })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-gray-900 rounded-2xl p-8 border border-gray-800">
+        <h1 className="text-xl font-bold text-white mb-2">Check your email</h1>
+        <p className="text-gray-400 text-sm mb-6">
+          {mode === 'link'
+            ? 'We sent a sign in link'
+            : 'We sent a link to confirm your email address'}
+          {email ? <> to <span className="text-white">{email}</span></> : null}
+          . Open it on this device to {mode === 'link' ? 'sign in' : 'finish creating your account'}.
+          It can take a minute to arrive; check your spam folder if it does not.
+        </p>
+
+        {email && (
+          <button
+            onClick={handleResend}
+            disabled={isSending}
+            className="w-full border border-gray-700 text-gray-300 hover:bg-gray-800 font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+          >
+            {isSending ? 'Sending...' : 'Send the email again'}
+          </button>
+        )}
+
+        {message && (
+          <p className={`mt-3 text-sm ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+        )}
+
+        <Link
+          href="/"
+          className="block text-center text-gray-400 hover:text-white text-sm mt-6 transition-colors"
+        >
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { getCurrentUserAsync, checkAuthentication, watchLocalSession, CurrentUser } from '../lib/auth'
+import {
+  loadSubscriptions,
+  saveSubscription as saveStoredSubscription,
+  saveSubscriptions as saveStoredSubscriptions,
+  deleteSubscription as deleteStoredSubscription,
+  renameSubscriptionCategory,
+  Subscription,
+  Category
+} from '../lib/subscriptions'
+import { watchSubscriptions } from '../lib/subscription-store'
+import { Workspace, refreshCurrentWorkspace, canEditWorkspace } from '../lib/workspaces'
+
+export interface DashboardData {
+  currentUser: CurrentUser
+  // Key for the user's local data: the Supabase user ID, or the username for local auth
+  userKey: string
+  // Supabase user ID, undefined for local auth users
+  userId?: string
+  subscriptions: Subscription[]
+  // Workspace being viewed (Supabase users only) and whether the user may change it
+  workspace: Workspace | null
+  canEdit: boolean
+  // True while subscriptions are being reloaded, with the error if that failed
+  isLoading: boolean
+  error: string | null
+  refreshSubscriptions: () => Promise<Subscription[]>
+  changeWorkspace: (workspace: Workspace) => Promise<void>
+  // Mutations show straight away, then are saved (queued for the database for Supabase users)
+  saveSubscription: (subscription: Subscription) => Promise<void>
+  saveSubscriptions: (subscriptions: Subscription[]) => Promise<void>
+  deleteSubscription: (subscriptionId: string) => Promise<void>
+  renameCategory: (oldName: Category, newName: Category) => Promise<void>
+}
+
+const DashboardContext = createContext<DashboardData | null>(null)
+
+// The signed-in user and their subscriptions, for every page under /dashboard
+export const useDashboard = (): DashboardData => {
+  const data = useContext(DashboardContext)
+  if (!data) {
+    throw new Error('useDashboard must be used inside the dashboard layout')
+  }
+  return data
+}
+
+// Checks authentication and loads subscriptions once for the whole dashboard, so that
+// switching tabs shows the cached list straight away. The list is kept current from
+// other tabs and devices, and reloaded when the window regains focus.
+export default function DashboardProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter()
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
+  const [subscriptions, setSubscriptionsState] = useState<Subscription[]>([])
+  const [workspace, setWorkspace] = useState<Workspace | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [mounted, setMounted] = useState(false)
+  // Latest list, for mutations made before React has re-rendered
+  const subscriptionsRef = useRef<Subscription[]>([])
+
+  const setSubscriptions = (updated: Subscription[]) => {
+    subscriptionsRef.current = updated
+    setSubscriptionsState(updated)
+  }
+
+  const loadData = async () => {
+    if (typeof window === 'undefined') return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      // Handle OAuth callback - check for tokens in URL hash first
+      const hashParams = new URLSearchParams(window.location.hash.substring(1))
+      const accessToken = hashParams.get('access_token')
+      const refreshToken = hashParams.get('refresh_token')
+      const errorParam = hashParams.get('error')
+
+      if (errorParam) {
+        console.error('OAuth error in URL hash:', errorParam)
+        setError(`OAuth error: ${errorParam}`)
+        return
+      }
+
+      if (accessToken && refreshToken) {
+        try {
+          const { getSupabaseClient } = await import('../lib/supabase-client')
+          const supabase = await getSupabaseClient()
+          const { data, error: sessionError } = await supabase.auth.setSession({
+            access_token: accessToken,
+            refresh_token: refreshToken,
+          })
+
+          if (sessionError) {
+            console.error('Error setting session from URL hash:', sessionError)
+            setError('Failed to set session. Please try logging in again.')
+            return
+          } else if (data?.session) {
+            // Clean up URL hash
+            window.history.replaceState(null, '', window.location.pathname + window.location.search)
+          }
+        } catch (err) {
+          console.error('Error handling OAuth tokens:', err)
+          setError('Failed to process OAuth tokens. Please try logging in again.')
+          return
+        }
+      }
+
+      // Give a small delay after OAuth redirect to ensure session is available
+      if (window.location.search.includes('code=') || accessToken) {
+        await new Promise(resolve => setTimeout(resolve, 500))
+      }
+
+      const isAuth = await checkAuthentication()
+      if (!isAuth) {
+        router.push('/')
+        return
+      }
+
+      const user = await getCurrentUserAsync()
+      if (!user) {
+        console.error('Failed to load user - user is null')
+        setError('Failed to load user data. Please try logging in again.')
+        return
+      }
+
+      // The role remembered for the workspace may be out of date (or the user removed from
+      // it), so check it before showing editing controls or saving anything
+      const current = user.id ? await refreshCurrentWorkspace(user.id) : null
+
+      // Use user ID for Supabase users, username for local users
+      setSubscriptions(await loadSubscriptions(user.id || user.username, user.id))
+      setWorkspace(current)
+      setCurrentUser(user)
+    } catch (err: any) {
+      console.error('Error loading dashboard data:', err)
+      setError(err.message || 'Failed to load dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  useEffect(() => {
+    // Only load data on client side after mount
+    if (mounted) {
+      loadData()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mounted])
+
+  const refreshSubscriptions = async (): Promise<Subscription[]> => {
+    if (!currentUser) return subscriptionsRef.current
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const loaded = await loadSubscriptions(currentUser.id || currentUser.username, currentUser.id)
+      setSubscriptions(loaded)
+      return loaded
+    } catch (err: any) {
+      console.error('Error reloading subscriptions:', err)
+      setError(err.message || 'Failed to load subscriptions')
+      return subscriptionsRef.current
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Show changes made in other tabs and on other devices as they happen
+  useEffect(() => {
+    if (!currentUser) return
+    return watchSubscriptions(currentUser.id || currentUser.username, currentUser.id, setSubscriptions)
+  }, [currentUser])
+
+  // Local sessions end after a period without activity; send the user back to sign in
+  useEffect(() => {
+    if (!currentUser || currentUser.id) return
+    return watchLocalSession(() => router.push('/?expired=1'))
+  }, [currentUser, router])
+
+  // Reload when the window comes back into focus, in case a change was missed
+  useEffect(() => {
+    if (!currentUser) return
+    const handleFocus = () => {
+      refreshSubscriptions()
+    }
+    window.addEventListener('focus', handleFocus)
+    return () => window.removeEventListener('focus', handleFocus)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUser])
+
+  if (!mounted || (isLoading && !currentUser)) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pastel-blue mx-auto mb-4"></div>
+          <p className="text-gray-400">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!currentUser) {
+    // Either the load failed, or the user is being sent to the sign in page
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-4">
+        {error && (
+          <div className="text-center">
+            <p className="text-red-400 mb-4">{error}</p>
+            <button
+              onClick={() => loadData()}
+              className="px-4 py-2 bg-pastel-blue text-black rounded-lg font-semibold"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const userKey = currentUser.id || currentUser.username
+  const userId = currentUser.id
+
+  const changeWorkspace = async (selected: Workspace) => {
+    setWorkspace(selected)
+    await refreshSubscriptions()
+  }
+
+  const saveSubscription = async (subscription: Subscription) => {
+    const previous = subscriptionsRef.current
+    setSubscriptions(previous.some(sub => sub.id === subscription.id)
+      ? previous.map(sub => (sub.id === subscription.id ? subscription : sub))
+      : [...previous, subscription])
+    await saveStoredSubscription(subscription, previous, userKey, userId)
+  }
+
+  const saveSubscriptions = async (updated: Subscription[]) => {
+    setSubscriptions(updated)
+    await saveStoredSubscriptions(updated, userKey, userId)
+  }
+
+  const deleteSubscription = async (subscriptionId: string) => {
+    const previous = subscriptionsRef.current
+    setSubscriptions(previous.filter(sub => sub.id !== subscriptionId))
+    await deleteStoredSubscription(subscriptionId, previous, userKey, userId)
+  }
+
+  const renameCategory = async (oldName: Category, newName: Category) => {
+    setSubscriptions(await renameSubscriptionCategory(oldName, newName, subscriptionsRef.current, userKey, userId))
+  }
+
+  const data: DashboardData = {
+    currentUser,
+    userKey,
+    userId,
+    subscriptions,
+    workspace,
+    canEdit: canEditWorkspace(workspace),
+    isLoading,
+    error,
+    refreshSubscriptions,
+    changeWorkspace,
+    saveSubscription,
+    saveSubscriptions,
+    deleteSubscription,
+    renameCategory
+  }
+
+  return <DashboardContext.Provider value={data}>{children}</DashboardContext.Provider>
+}
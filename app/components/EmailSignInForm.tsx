@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { signInWithEmail, signUpWithEmail, sendMagicLink } from '../lib/auth'
+
+interface EmailSignInFormProps {
+  // Where to go once signed in, including after following a link from an email
+  next: string
+  onError: (error: string | null) => void
+}
+
+// Supabase sign in with an email address: password, or a one-time link sent by email.
+// Accounts created here must confirm their address before they can sign in (unless
+// email confirmation is turned off for the Supabase project).
+export default function EmailSignInForm({ next, onError }: EmailSignInFormProps) {
+  const router = useRouter()
+  const [isSignUp, setIsSignUp] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [formData, setFormData] = useState({
+    email: '',
+    password: '',
+    confirmPassword: '',
+    fullName: ''
+  })
+
+  const showVerifyEmail = (mode: 'signup' | 'link') => {
+    const params = new URLSearchParams({ email: formData.email.trim(), mode, next })
+    router.push(`/auth/verify-email?${params.toString()}`)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    onError(null)
+
+    if (isSignUp && formData.password !== formData.confirmPassword) {
+      onError('Passwords do not match')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      if (isSignUp) {
+        const result = await signUpWithEmail(formData.email, formData.password, formData.fullName || undefined, next)
+        if (!result.success) {
+          onError(result.error || 'Sign up failed')
+        } else if (result.needsVerification) {
+          showVerifyEmail('signup')
+        } else {
+          router.push(next)
+        }
+      } else {
+        const result = await signInWithEmail(formData.email, formData.password)
+        if (result.success) {
+          router.push(next)
+        } else if (result.needsVerification) {
+          showVerifyEmail('signup')
+        } else {
+          onError(result.error || 'Sign in failed')
+        }
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleMagicLink = async () => {
+    onError(null)
+    if (!formData.email.trim()) {
+      onError('Enter your email address to get a sign in link')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await sendMagicLink(formData.email, next)
+      if (result.success) {
+        showVerifyEmail('link')
+      } else {
+        onError(result.error || 'Failed to send the sign in link')
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent'
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {isSignUp && (
+        <div>
+          <label htmlFor="emailFullName" className="block text-sm font-medium text-gray-300 mb-2">
+            Full Name (optional)
+          </label>
+          <input
+            type="text"
+            id="emailFullName"
+            value={formData.fullName}
+            onChange={(e) => setFormData(prev => ({ ...prev, fullName: e.target.value }))}
+            className={inputClassName}
+            placeholder="Your full name"
+            autoComplete="name"
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+          Email
+        </label>
+        <input
+          type="email"
+          id="email"
+          value={formData.email}
+          onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+          className={inputClassName}
+          placeholder="you@example.com"
+          autoComplete="email"
+          required
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="emailPassword" className="block text-sm font-medium text-gray-300">
+            Password
+          </label>
+          {!isSignUp && (
+            <button
+              type="button"
+              onClick={() => router.push(`/auth/forgot-password${formData.email ? `?email=${encodeURIComponent(formData.email.trim())}` : ''}`)}
+              className="text-gray-400 hover:text-white text-xs transition-colors"
+            >
+              Forgot password?
+            </button>
+          )}
+        </div>
+        <input
+          type="password"
+          id="emailPassword"
+          value={formData.password}
+          onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+          className={inputClassName}
+          placeholder={isSignUp ? 'Choose a password' : 'Enter password'}
+          autoComplete={isSignUp ? 'new-password' : 'current-password'}
+          required
+        />
+      </div>
+
+      {isSignUp && (
+        <div>
+          <label htmlFor="emailConfirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+            Confirm Password
+          </label>
+          <input
+            type="password"
+            id="emailConfirmPassword"
+            value={formData.confirmPassword}
+            onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+            className={inputClassName}
+            placeholder="Confirm password"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+      >
+        {isLoading ? 'Please wait...' : isSignUp ? 'Create account' : 'Sign in with email'}
+      </button>
+
+      {!isSignUp && (
+        <button
+          type="button"
+          onClick={handleMagicLink}
+          disabled={isLoading}
+          className="w-full border border-gray-700 text-gray-300 hover:bg-gray-800 font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+        >
+          Email me a sign in link
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={() => {
+          setIsSignUp(!isSignUp)
+          onError(null)
+        }}
+        className="w-full text-gray-400 hover:text-white text-sm py-1 transition-colors"
+      >
+        {isSignUp ? 'Already have an account? Sign in' : 'New here? Create an account'}
+      </button>
+    </form>
+  )
+}
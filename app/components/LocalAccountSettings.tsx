@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { changePassword, regenerateRecoveryCode, hasRecoveryCode, IDLE_TIMEOUT_MS, SESSION_MAX_AGE_MS } from '../lib/auth'
+
+// Password and recovery code for the temporary (local) login. Both need the current
+// password, so leaving a signed-in browser unattended does not let someone take the account.
+export default function LocalAccountSettings() {
+  const [form, setForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' })
+  const [isChangingPassword, setIsChangingPassword] = useState(false)
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null)
+  const [hasCode, setHasCode] = useState(() => hasRecoveryCode())
+  const [isSaving, setIsSaving] = useState(false)
+
+  const resetForm = () => {
+    setForm({ currentPassword: '', newPassword: '', confirmPassword: '' })
+    setIsChangingPassword(false)
+  }
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    const result = await changePassword(form.currentPassword, form.newPassword, form.confirmPassword)
+    setIsSaving(false)
+
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Could not change the password' })
+      return
+    }
+    resetForm()
+    setMessage({ type: 'success', text: 'Password changed' })
+  }
+
+  const handleNewRecoveryCode = async () => {
+    if (!form.currentPassword) {
+      setIsChangingPassword(true)
+      setMessage({ type: 'error', text: 'Enter your current password to get a new recovery code' })
+      return
+    }
+
+    setIsSaving(true)
+    const result = await regenerateRecoveryCode(form.currentPassword)
+    setIsSaving(false)
+
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Could not create a recovery code' })
+      return
+    }
+    resetForm()
+    setRecoveryCode(result.recoveryCode || null)
+    setHasCode(true)
+    setMessage(null)
+  }
+
+  const idleHours = IDLE_TIMEOUT_MS / (60 * 60 * 1000)
+  const sessionDays = SESSION_MAX_AGE_MS / (24 * 60 * 60 * 1000)
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent'
+
+  return (
+    <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+      <div className="flex items-start gap-3 mb-4">
+        <svg className="w-5 h-5 text-pastel-blue flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+        <div>
+          <div className="text-white font-semibold mb-1">Password</div>
+          <div className="text-gray-400 text-sm">
+            You are signed out after {idleHours} hour{idleHours === 1 ? '' : 's'} without activity, and {sessionDays} days after signing in
+          </div>
+        </div>
+      </div>
+
+      {recoveryCode && (
+        <div className="mb-4">
+          <p className="text-gray-400 text-xs mb-2">Your new recovery code. It is only shown now; the old one no longer works.</p>
+          <div className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white font-mono text-center tracking-wider">
+            {recoveryCode}
+          </div>
+        </div>
+      )}
+
+      {!hasCode && !recoveryCode && (
+        <p className="text-yellow-400 text-xs mb-4">
+          This account has no recovery code, so a forgotten password cannot be reset. Create one below.
+        </p>
+      )}
+
+      {isChangingPassword ? (
+        <form onSubmit={handleChangePassword} className="space-y-2">
+          <input
+            type="password"
+            value={form.currentPassword}
+            onChange={(e) => setForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+            placeholder="Current password"
+            autoComplete="current-password"
+            className={inputClassName}
+            required
+          />
+          <input
+            type="password"
+            value={form.newPassword}
+            onChange={(e) => setForm(prev => ({ ...prev, newPassword: e.target.value }))}
+            placeholder="New password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={form.confirmPassword}
+            onChange={(e) => setForm(prev => ({ ...prev, confirmPassword: e.target.value }))}
+            placeholder="Confirm new password"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <div className="flex gap-2 pt-1">
+            <button
+              type="button"
+              onClick={() => {
+                resetForm()
+                setMessage(null)
+              }}
+              className="flex-1 px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !form.newPassword}
+              className="flex-1 px-3 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold hover:bg-pastel-blue-dark transition-colors disabled:opacity-50"
+            >
+              Change password
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={handleNewRecoveryCode}
+            disabled={isSaving}
+            className="w-full px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            New recovery code
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => {
+            setIsChangingPassword(true)
+            setRecoveryCode(null)
+            setMessage(null)
+          }}
+          className="w-full px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors"
+        >
+          Change password or recovery code
+        </button>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+    </div>
+  )
+}
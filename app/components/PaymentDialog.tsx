@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { LedgerEntry, Payment, PaymentStatus, createPayment } from '../lib/payments'
+import { formatDate, toDateInputValue } from '../lib/subscriptions'
+import { formatCurrency } from '../lib/currency'
+
+interface PaymentDialogProps {
+  entry: LedgerEntry
+  // Prefilled payment method for new records, e.g. the subscription's card
+  defaultMethod?: string
+  // Both report whether the change was saved; on failure the dialog stays open with the error
+  onSave: (payment: Payment) => Promise<{ success: boolean; error?: string }>
+  // Remove the existing record, leaving the renewal unrecorded
+  onClear: (payment: Payment) => Promise<{ success: boolean; error?: string }>
+  onClose: () => void
+}
+
+// Record whether one renewal was paid (and how much, when and how) or missed
+export default function PaymentDialog({ entry, defaultMethod, onSave, onClear, onClose }: PaymentDialogProps) {
+  const [amount, setAmount] = useState((entry.payment?.amount ?? entry.expectedAmount).toString())
+  const [paidDate, setPaidDate] = useState(toDateInputValue(entry.payment?.paidDate || entry.dueDate))
+  const [method, setMethod] = useState(entry.payment ? entry.payment.method || '' : defaultMethod || '')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async (status: PaymentStatus) => {
+    const parsedAmount = parseFloat(amount)
+    if (status === 'paid') {
+      if (isNaN(parsedAmount) || parsedAmount < 0) {
+        setError('Enter the amount that was charged')
+        return
+      }
+      if (!paidDate) {
+        setError('Enter the date it was paid')
+        return
+      }
+    }
+
+    setIsSaving(true)
+    setError(null)
+    const result = await onSave(createPayment(entry, status, { amount: parsedAmount, paidDate: new Date(paidDate), method }))
+    setIsSaving(false)
+    if (!result.success) {
+      setError(result.error || 'Could not save the payment')
+    }
+  }
+
+  const handleClear = async () => {
+    if (!entry.payment) return
+    setIsSaving(true)
+    setError(null)
+    const result = await onClear(entry.payment)
+    setIsSaving(false)
+    if (!result.success) {
+      setError(result.error || 'Could not clear the payment')
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue'
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center px-4 z-50">
+      <div className="w-full max-w-sm bg-gray-900 rounded-2xl p-6 border border-gray-800">
+        <h2 className="text-white font-bold text-lg mb-1">{entry.subscription.name}</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Renewal on {formatDate(entry.dueDate)} &middot; expected {formatCurrency(entry.expectedAmount, entry.subscription.currency)}
+        </p>
+
+        <div className="space-y-3 mb-4">
+          <div>
+            <label htmlFor="paymentAmount" className="block text-gray-300 text-sm mb-1">
+              Amount charged ({entry.subscription.currency})
+            </label>
+            <input
+              type="number"
+              id="paymentAmount"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="paymentDate" className="block text-gray-300 text-sm mb-1">Paid on</label>
+            <input
+              type="date"
+              id="paymentDate"
+              value={paidDate}
+              onChange={(e) => setPaidDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="paymentMethod" className="block text-gray-300 text-sm mb-1">Payment method (optional)</label>
+            <input
+              type="text"
+              id="paymentMethod"
+              placeholder="e.g. Visa, PayPal"
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        <div className="flex gap-3 mb-3">
+          <button
+            type="button"
+            onClick={() => handleSave('missed')}
+            disabled={isSaving}
+            className="flex-1 px-4 py-3 border border-red-800 text-red-400 rounded-lg hover:bg-red-900/30 font-medium transition-colors disabled:opacity-50 touch-target"
+          >
+            Missed
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSave('paid')}
+            disabled={isSaving}
+            className="flex-1 px-4 py-3 bg-pastel-blue text-black rounded-lg font-semibold transition-colors disabled:opacity-50 touch-target"
+          >
+            Paid
+          </button>
+        </div>
+        <div className="flex gap-3">
+          {entry.payment && (
+            <button
+              type="button"
+              onClick={handleClear}
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 text-gray-400 text-sm font-medium hover:text-white transition-colors touch-target"
+            >
+              Clear record
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 text-gray-400 text-sm font-medium hover:text-white transition-colors touch-target"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
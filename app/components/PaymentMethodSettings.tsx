@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Subscription } from '../lib/subscriptions'
+import { getToday } from '../lib/recurrence'
+import {
+  PaymentMethod,
+  PaymentMethodType,
+  PAYMENT_METHOD_TYPES,
+  PAYMENT_METHOD_TYPE_LABELS,
+  loadPaymentMethods,
+  savePaymentMethod,
+  deletePaymentMethod,
+  validatePaymentMethod,
+  createPaymentMethod,
+  formatPaymentMethod,
+  formatExpiry,
+  getExpiryDate,
+  isCard
+} from '../lib/payment-methods'
+
+interface PaymentMethodSettingsProps {
+  userKey: string
+  userId?: string
+  // The workspace's subscriptions, to show and protect the methods in use
+  subscriptions: Subscription[]
+  // Workspace viewers see the methods but cannot change them
+  readOnly?: boolean
+}
+
+interface PaymentMethodDraft {
+  id?: string
+  label: string
+  type: PaymentMethodType
+  last4: string
+  expiryMonth: string
+  expiryYear: string
+}
+
+const toDraft = (method: PaymentMethod): PaymentMethodDraft => ({
+  id: method.id,
+  label: method.label,
+  type: method.type,
+  last4: method.last4 || '',
+  expiryMonth: method.expiryMonth ? method.expiryMonth.toString() : '',
+  expiryYear: method.expiryYear ? method.expiryYear.toString() : ''
+})
+
+// Settings card for the cards and accounts subscriptions are paid with
+export default function PaymentMethodSettings({ userKey, userId, subscriptions, readOnly = false }: PaymentMethodSettingsProps) {
+  const [methods, setMethods] = useState<PaymentMethod[]>([])
+  const [draft, setDraft] = useState<PaymentMethodDraft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      setMethods(await loadPaymentMethods(userKey, userId))
+    }
+    load()
+  }, [userKey, userId])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    const card = isCard(draft)
+    const fields: Omit<PaymentMethod, 'id'> = {
+      label: draft.label,
+      type: draft.type,
+      last4: draft.last4.trim() || undefined,
+      expiryMonth: card && draft.expiryMonth ? Number(draft.expiryMonth) : undefined,
+      expiryYear: card && draft.expiryYear ? Number(draft.expiryYear) : undefined
+    }
+    const validationError = validatePaymentMethod(fields)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    const method = draft.id ? { ...fields, id: draft.id, label: fields.label.trim() } : createPaymentMethod(fields)
+    setMethods(await savePaymentMethod(method, methods, userKey, userId))
+    setDraft(null)
+    setError(null)
+  }
+
+  const handleDelete = async (method: PaymentMethod) => {
+    const inUse = subscriptions.filter(sub => sub.paymentMethodId === method.id).length
+    if (inUse > 0) {
+      setError(`Move ${inUse} subscription${inUse === 1 ? '' : 's'} to another payment method before deleting ${method.label}`)
+      return
+    }
+
+    setMethods(await deletePaymentMethod(method.id, methods, userKey, userId))
+    setDraft(null)
+    setError(null)
+  }
+
+  const today = getToday()
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent'
+
+  return (
+    <div id="payment-methods" className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+      <div className="flex items-start gap-3 mb-4">
+        <svg className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+        </svg>
+        <div>
+          <div className="text-white font-semibold mb-1">Payment methods</div>
+          <div className="text-gray-400 text-sm">Cards and accounts your subscriptions are paid with</div>
+        </div>
+      </div>
+
+      {methods.length > 0 ? (
+        <div className="space-y-2 mb-4">
+          {methods.map((method) => {
+            const expiry = getExpiryDate(method)
+            const used = subscriptions.filter(sub => sub.paymentMethodId === method.id).length
+            return (
+              <div key={method.id} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-300 text-sm truncate">{formatPaymentMethod(method)}</div>
+                  <div className="text-gray-500 text-xs">
+                    {PAYMENT_METHOD_TYPE_LABELS[method.type]}
+                    {formatExpiry(method) && (
+                      <span className={expiry && expiry < today ? 'text-red-400' : ''}>
+                        {' '}&middot; {expiry && expiry < today ? 'expired' : 'expires'} {formatExpiry(method)}
+                      </span>
+                    )}
+                    {' '}&middot; {used} subscription{used === 1 ? '' : 's'}
+                  </div>
+                </div>
+                {!readOnly && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setDraft(toDraft(method))
+                        setError(null)
+                      }}
+                      className="text-gray-400 hover:text-white text-sm touch-target"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(method)}
+                      className="text-red-400 hover:text-red-300 text-sm touch-target"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-sm mb-4">No payment methods yet.</p>
+      )}
+
+      {!readOnly && (draft ? (
+        <form onSubmit={handleSave} className="pt-4 border-t border-gray-800 space-y-3">
+          <input
+            type="text"
+            value={draft.label}
+            onChange={(e) => setDraft(prev => prev && { ...prev, label: e.target.value })}
+            maxLength={50}
+            placeholder="Label, e.g. Personal Visa"
+            className={inputClassName}
+            aria-label="Label"
+          />
+          <div className="flex gap-2">
+            <select
+              value={draft.type}
+              onChange={(e) => setDraft(prev => prev && { ...prev, type: e.target.value as PaymentMethodType })}
+              className={inputClassName}
+              aria-label="Type"
+            >
+              {PAYMENT_METHOD_TYPES.map((type) => (
+                <option key={type} value={type}>{PAYMENT_METHOD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={draft.last4}
+              onChange={(e) => setDraft(prev => prev && { ...prev, last4: e.target.value })}
+              maxLength={4}
+              placeholder="Last 4"
+              className={`${inputClassName} w-24`}
+              aria-label="Last 4 digits"
+            />
+          </div>
+          {isCard(draft) && (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400 text-sm">Expires</span>
+              <input
+                type="number"
+                value={draft.expiryMonth}
+                onChange={(e) => setDraft(prev => prev && { ...prev, expiryMonth: e.target.value })}
+                min="1"
+                max="12"
+                placeholder="MM"
+                className={`${inputClassName} w-20`}
+                aria-label="Expiry month"
+              />
+              <input
+                type="number"
+                value={draft.expiryYear}
+                onChange={(e) => setDraft(prev => prev && { ...prev, expiryYear: e.target.value })}
+                min="2000"
+                max="2100"
+                placeholder="YYYY"
+                className={`${inputClassName} w-24`}
+                aria-label="Expiry year"
+              />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(null)
+                setError(null)
+              }}
+              className="flex-1 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold touch-target"
+            >
+              {draft.id ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => {
+            setDraft({ label: '', type: 'credit', last4: '', expiryMonth: '', expiryYear: '' })
+            setError(null)
+          }}
+          className="w-full px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+        >
+          Add payment method
+        </button>
+      ))}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-400">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,602 @@
+'use client'
+
+import { useState } from 'react'
+import { CYCLES, INTERVAL_UNITS, STATUSES, SubscriptionFormData, toDateInputValue, validateSubscriptionForm } from '../lib/subscriptions'
+import { getToday } from '../lib/recurrence'
+import { CategoryIcon } from './CategoryIcon'
+import { CategoryDefinition, DEFAULT_CATEGORIES, findCategory } from '../lib/categories'
+import { CURRENCIES, DEFAULT_CURRENCY } from '../lib/currency'
+import { SPLIT_METHODS, SPLIT_METHOD_LABELS, ME, splitToFormData } from '../lib/splits'
+import { PaymentMethod, formatPaymentMethod, formatExpiry, getExpiryDate } from '../lib/payment-methods'
+
+interface SubscriptionFormProps {
+  initialData?: SubscriptionFormData
+  // Renewal date the subscription already had; left unchanged it skips the future-date check
+  previousRenewalDate?: string
+  // Currency preselected for new subscriptions (the user's home currency)
+  defaultCurrency?: string
+  // The workspace's categories; the first is preselected for new subscriptions
+  categories?: CategoryDefinition[]
+  // The workspace's cards and accounts to choose from
+  paymentMethods?: PaymentMethod[]
+  // Non-blocking warnings for the current values, e.g. going over budget
+  getWarnings?: (formData: SubscriptionFormData) => string[]
+  // Show the values without letting them be changed, e.g. for workspace viewers
+  readOnly?: boolean
+  submitLabel: string
+  onSubmit: (formData: SubscriptionFormData) => void | Promise<void>
+  onCancel: () => void
+}
+
+const createEmptyFormData = (currency: string, category: string): SubscriptionFormData => ({
+  name: '',
+  cost: '',
+  currency,
+  renewalDate: '',
+  cycle: 'Monthly',
+  intervalCount: '1',
+  intervalUnit: 'months',
+  status: 'Active',
+  category,
+  trialStartDate: '',
+  trialEndDate: '',
+  postTrialCost: '',
+  cancellationDate: '',
+  activeUntil: '',
+  ...splitToFormData(),
+  paymentMethodId: ''
+})
+
+export default function SubscriptionForm({ initialData, previousRenewalDate, defaultCurrency = DEFAULT_CURRENCY, categories = DEFAULT_CATEGORIES, paymentMethods = [], getWarnings, readOnly = false, submitLabel, onSubmit, onCancel }: SubscriptionFormProps) {
+  const [formData, setFormData] = useState<SubscriptionFormData>(initialData || createEmptyFormData(defaultCurrency, categories[0]?.name || ''))
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const clearError = (name: string) => {
+    if (formErrors[name]) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
+    }
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData(prev => ({ ...prev, [name]: value }))
+    clearError(name)
+  }
+
+  // Prefill cancellation dates: cancelled today, service until the current renewal date
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    handleInputChange(e)
+    if (e.target.value === 'Cancelled') {
+      setFormData(prev => ({
+        ...prev,
+        cancellationDate: prev.cancellationDate || toDateInputValue(getToday()),
+        activeUntil: prev.activeUntil || prev.renewalDate
+      }))
+    }
+  }
+
+  // Edit one of the other people sharing the cost
+  const handleParticipantChange = (index: number, field: 'name' | 'share', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      splitParticipants: prev.splitParticipants.map((participant, i) => (i === index ? { ...participant, [field]: value } : participant)),
+      // Keep the payer pointing at the renamed person
+      paidBy: field === 'name' && prev.paidBy === prev.splitParticipants[index].name ? value : prev.paidBy
+    }))
+    clearError('split')
+  }
+
+  const handleAddParticipant = () => {
+    setFormData(prev => ({ ...prev, splitParticipants: [...prev.splitParticipants, { name: '', share: '' }] }))
+  }
+
+  const handleRemoveParticipant = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      splitParticipants: prev.splitParticipants.filter((_, i) => i !== index),
+      paidBy: prev.paidBy === prev.splitParticipants[index].name ? '' : prev.paidBy
+    }))
+    clearError('split')
+  }
+
+  // Start a split with one empty row for the other person
+  const handleSplitMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    handleInputChange(e)
+    clearError('split')
+    if (e.target.value && formData.splitParticipants.length === 0) {
+      handleAddParticipant()
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const errors = validateSubscriptionForm(formData, previousRenewalDate)
+    setFormErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(formData)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Keep a category that has since been removed selectable when editing
+  const categoryOptions = categories.some(category => category.name === formData.category) || !formData.category
+    ? categories
+    : [findCategory(formData.category, categories), ...categories]
+  const isTrial = formData.status === 'Trial'
+  const warnings = getWarnings ? getWarnings(formData) : []
+  // Warn when the chosen card runs out before the next renewal
+  const paymentMethod = paymentMethods.find(method => method.id === formData.paymentMethodId)
+  const cardExpiry = paymentMethod ? getExpiryDate(paymentMethod) : null
+  const nextRenewal = isTrial ? formData.trialEndDate : formData.renewalDate
+  const cardExpiresFirst = !!cardExpiry && !!nextRenewal && (formData.status === 'Active' || isTrial) && cardExpiry < new Date(nextRenewal)
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+        {/* Name */}
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-2">
+            Name *
+          </label>
+          <input
+            type="text"
+            id="name"
+            name="name"
+            value={formData.name}
+            onChange={handleInputChange}
+            className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+              formErrors.name ? 'border-red-500' : 'border-gray-800'
+            }`}
+            placeholder="e.g., Netflix"
+          />
+          {formErrors.name && (
+            <p className="mt-1 text-sm text-red-400">{formErrors.name}</p>
+          )}
+        </div>
+
+        {/* Cost */}
+        <div>
+          <label htmlFor="cost" className="block text-sm font-medium text-gray-300 mb-2">
+            {isTrial ? 'Trial Cost *' : 'Cost *'}
+          </label>
+          <div className="flex gap-3">
+            <select
+              id="currency"
+              name="currency"
+              value={formData.currency}
+              onChange={handleInputChange}
+              className="w-28 px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+            >
+              {(CURRENCIES.includes(formData.currency) ? CURRENCIES : [formData.currency, ...CURRENCIES]).map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              id="cost"
+              name="cost"
+              value={formData.cost}
+              onChange={handleInputChange}
+              min="0"
+              step="0.01"
+              className={`flex-1 min-w-0 px-4 py-3 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                formErrors.cost ? 'border-red-500' : 'border-gray-800'
+              }`}
+              placeholder="0.00"
+            />
+          </div>
+          {formErrors.cost && (
+            <p className="mt-1 text-sm text-red-400">{formErrors.cost}</p>
+          )}
+        </div>
+
+        {/* Renewal Date (a trial renews when it ends, see Trial Details) */}
+        {!isTrial && (
+          <div>
+            <label htmlFor="renewalDate" className="block text-sm font-medium text-gray-300 mb-2">
+              Renewal Date *
+            </label>
+            <input
+              type="date"
+              id="renewalDate"
+              name="renewalDate"
+              value={formData.renewalDate}
+              onChange={handleInputChange}
+              className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                formErrors.renewalDate ? 'border-red-500' : 'border-gray-800'
+              }`}
+            />
+            {formErrors.renewalDate && (
+              <p className="mt-1 text-sm text-red-400">{formErrors.renewalDate}</p>
+            )}
+          </div>
+        )}
+
+        {/* Cycle */}
+        <div>
+          <label htmlFor="cycle" className="block text-sm font-medium text-gray-300 mb-2">
+            Cycle *
+          </label>
+          <select
+            id="cycle"
+            name="cycle"
+            value={formData.cycle}
+            onChange={handleInputChange}
+            className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+          >
+            {CYCLES.map((cycle) => (
+              <option key={cycle} value={cycle}>{cycle}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Custom Interval (shown when cycle is Custom) */}
+        {formData.cycle === 'Custom' && (
+          <div>
+            <label htmlFor="intervalCount" className="block text-sm font-medium text-gray-300 mb-2">
+              Renews every *
+            </label>
+            <div className="flex gap-3">
+              <input
+                type="number"
+                id="intervalCount"
+                name="intervalCount"
+                value={formData.intervalCount}
+                onChange={handleInputChange}
+                min="1"
+                step="1"
+                className={`w-24 px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                  formErrors.intervalCount ? 'border-red-500' : 'border-gray-800'
+                }`}
+              />
+              <select
+                id="intervalUnit"
+                name="intervalUnit"
+                value={formData.intervalUnit}
+                onChange={handleInputChange}
+                className="flex-1 px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+              >
+                {INTERVAL_UNITS.map((unit) => (
+                  <option key={unit} value={unit}>{unit}</option>
+                ))}
+              </select>
+            </div>
+            {formErrors.intervalCount && (
+              <p className="mt-1 text-sm text-red-400">{formErrors.intervalCount}</p>
+            )}
+          </div>
+        )}
+
+        {/* Status */}
+        <div>
+          <label htmlFor="status" className="block text-sm font-medium text-gray-300 mb-2">
+            Status *
+          </label>
+          <select
+            id="status"
+            name="status"
+            value={formData.status}
+            onChange={handleStatusChange}
+            className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+          >
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Cancellation Details (shown when status is Cancelled) */}
+        {formData.status === 'Cancelled' && (
+          <div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="cancellationDate" className="block text-sm font-medium text-gray-300 mb-2">
+                  Cancelled On *
+                </label>
+                <input
+                  type="date"
+                  id="cancellationDate"
+                  name="cancellationDate"
+                  value={formData.cancellationDate}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                    formErrors.cancellationDate ? 'border-red-500' : 'border-gray-800'
+                  }`}
+                />
+              </div>
+              <div>
+                <label htmlFor="activeUntil" className="block text-sm font-medium text-gray-300 mb-2">
+                  Active Until *
+                </label>
+                <input
+                  type="date"
+                  id="activeUntil"
+                  name="activeUntil"
+                  value={formData.activeUntil}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                    formErrors.activeUntil ? 'border-red-500' : 'border-gray-800'
+                  }`}
+                />
+              </div>
+            </div>
+            {formErrors.cancellationDate && (
+              <p className="mt-1 text-sm text-red-400">{formErrors.cancellationDate}</p>
+            )}
+            {formErrors.activeUntil && (
+              <p className="mt-1 text-sm text-red-400">{formErrors.activeUntil}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              The subscription moves to Expired after its active until date.
+            </p>
+          </div>
+        )}
+
+        {/* Trial Details (shown when status is Trial) */}
+        {isTrial && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="trialStartDate" className="block text-sm font-medium text-gray-300 mb-2">
+                  Trial Started
+                </label>
+                <input
+                  type="date"
+                  id="trialStartDate"
+                  name="trialStartDate"
+                  value={formData.trialStartDate}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                    formErrors.trialStartDate ? 'border-red-500' : 'border-gray-800'
+                  }`}
+                />
+              </div>
+              <div>
+                <label htmlFor="trialEndDate" className="block text-sm font-medium text-gray-300 mb-2">
+                  Trial Ends *
+                </label>
+                <input
+                  type="date"
+                  id="trialEndDate"
+                  name="trialEndDate"
+                  value={formData.trialEndDate}
+                  onChange={handleInputChange}
+                  className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                    formErrors.trialEndDate ? 'border-red-500' : 'border-gray-800'
+                  }`}
+                />
+              </div>
+            </div>
+            {formErrors.trialStartDate && (
+              <p className="text-sm text-red-400">{formErrors.trialStartDate}</p>
+            )}
+            {formErrors.trialEndDate && (
+              <p className="text-sm text-red-400">{formErrors.trialEndDate}</p>
+            )}
+
+            <div>
+              <label htmlFor="postTrialCost" className="block text-sm font-medium text-gray-300 mb-2">
+                Price After Trial *
+              </label>
+              <input
+                type="number"
+                id="postTrialCost"
+                name="postTrialCost"
+                value={formData.postTrialCost}
+                onChange={handleInputChange}
+                min="0"
+                step="0.01"
+                className={`w-full px-4 py-3 bg-gray-900 border rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors ${
+                  formErrors.postTrialCost ? 'border-red-500' : 'border-gray-800'
+                }`}
+                placeholder="0.00"
+              />
+              {formErrors.postTrialCost && (
+                <p className="mt-1 text-sm text-red-400">{formErrors.postTrialCost}</p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                The subscription becomes Active at this price when the trial ends.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Category */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-3">
+            Category *
+          </label>
+          <div className="grid grid-cols-5 gap-2">
+            {categoryOptions.map((cat) => (
+              <button
+                key={cat.id}
+                type="button"
+                onClick={() => {
+                  setFormData(prev => ({ ...prev, category: cat.name }))
+                  clearError('category')
+                }}
+                className={`flex flex-col items-center gap-2 p-3 border-2 rounded-lg transition-all touch-target ${
+                  formData.category === cat.name
+                    ? 'border-pastel-blue bg-pastel-blue/20'
+                    : 'border-gray-800 bg-gray-900 hover:border-gray-700'
+                }`}
+              >
+                <CategoryIcon category={cat.name} categories={categoryOptions} className="w-5 h-5" />
+                <span className="text-xs font-medium text-white truncate max-w-full">{cat.name}</span>
+              </button>
+            ))}
+          </div>
+          {formErrors.category && (
+            <p className="mt-1 text-sm text-red-400">{formErrors.category}</p>
+          )}
+        </div>
+        {/* Payment Method */}
+        <div>
+          <label htmlFor="paymentMethodId" className="block text-sm font-medium text-gray-300 mb-2">
+            Payment method
+          </label>
+          {paymentMethods.length > 0 ? (
+            <select
+              id="paymentMethodId"
+              name="paymentMethodId"
+              value={formData.paymentMethodId}
+              onChange={handleInputChange}
+              className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+            >
+              <option value="">Not set</option>
+              {paymentMethods.map((method) => (
+                <option key={method.id} value={method.id}>{formatPaymentMethod(method)}</option>
+              ))}
+            </select>
+          ) : (
+            <p className="text-gray-500 text-sm">Add your cards and accounts in Settings to record which one pays for this.</p>
+          )}
+          {cardExpiresFirst && (
+            <p className="mt-1 text-sm text-yellow-400">
+              This card expires {formatExpiry(paymentMethod!)}, before the next renewal
+            </p>
+          )}
+        </div>
+
+        {/* Cost Split */}
+        <div>
+          <label htmlFor="splitMethod" className="block text-sm font-medium text-gray-300 mb-2">
+            Split cost
+          </label>
+          <select
+            id="splitMethod"
+            name="splitMethod"
+            value={formData.splitMethod}
+            onChange={handleSplitMethodChange}
+            className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors"
+          >
+            <option value="">Not split</option>
+            {SPLIT_METHODS.map((method) => (
+              <option key={method} value={method}>{SPLIT_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+
+          {formData.splitMethod && (
+            <div className="mt-3 space-y-2">
+              {formData.splitMethod !== 'equal' && (
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-white text-sm px-1">{ME}</span>
+                  <input
+                    type="number"
+                    name="myShare"
+                    value={formData.myShare}
+                    onChange={(e) => { handleInputChange(e); clearError('split') }}
+                    min="0"
+                    step="0.01"
+                    placeholder={formData.splitMethod === 'percentage' ? '%' : formData.currency}
+                    className="w-24 px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                    aria-label="Your share"
+                  />
+                  <span className="w-6" />
+                </div>
+              )}
+              {formData.splitParticipants.map((participant, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={participant.name}
+                    onChange={(e) => handleParticipantChange(index, 'name', e.target.value)}
+                    placeholder="Name"
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                    aria-label={`Person ${index + 1} name`}
+                  />
+                  {formData.splitMethod !== 'equal' && (
+                    <input
+                      type="number"
+                      value={participant.share}
+                      onChange={(e) => handleParticipantChange(index, 'share', e.target.value)}
+                      min="0"
+                      step="0.01"
+                      placeholder={formData.splitMethod === 'percentage' ? '%' : formData.currency}
+                      className="w-24 px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                      aria-label={`Person ${index + 1} share`}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveParticipant(index)}
+                    className="w-6 text-gray-500 hover:text-red-400 transition-colors"
+                    aria-label={`Remove person ${index + 1}`}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={handleAddParticipant}
+                className="text-pastel-blue text-sm font-medium"
+              >
+                + Add person
+              </button>
+              <div className="flex items-center gap-2 pt-1">
+                <label htmlFor="paidBy" className="text-sm text-gray-300">Paid by</label>
+                <select
+                  id="paidBy"
+                  name="paidBy"
+                  value={formData.paidBy}
+                  onChange={handleInputChange}
+                  className="flex-1 px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                >
+                  <option value="">{ME}</option>
+                  {formData.splitParticipants.filter(participant => participant.name.trim()).map((participant, index) => (
+                    <option key={index} value={participant.name}>{participant.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          {formErrors.split && (
+            <p className="mt-1 text-sm text-red-400">{formErrors.split}</p>
+          )}
+        </div>
+      </fieldset>
+
+      {/* Warnings */}
+      {!readOnly && warnings.length > 0 && (
+        <div className="bg-yellow-900/30 border border-yellow-800 text-yellow-200 px-4 py-3 rounded-lg text-sm space-y-1">
+          {warnings.map((warning) => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Form Actions */}
+      <div className="flex gap-3 pt-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-3 border border-gray-800 text-gray-300 rounded-lg hover:bg-gray-900 font-medium transition-colors touch-target"
+        >
+          {readOnly ? 'Back' : 'Cancel'}
+        </button>
+        {!readOnly && (
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 px-4 py-3 bg-pastel-blue text-black rounded-lg hover:bg-pastel-blue-dark font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+          >
+            {submitLabel}
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatCurrency } from '../lib/currency'
+import { formatCycle } from '../lib/subscriptions'
+import { SyncStatus as SyncStatusValue, PendingMutation, getSyncStatus, subscribeToSyncStatus, refreshSyncStatus, flushMutations, resolveConflict } from '../lib/sync'
+
+interface SyncStatusProps {
+  userId: string
+}
+
+const describeChange = (mutation: PendingMutation): string => {
+  const sub = mutation.subscription
+  return mutation.type === 'delete' || !sub
+    ? 'You deleted it'
+    : `Yours: ${formatCurrency(sub.cost, sub.currency)} ${formatCycle(sub)}, ${sub.status}`
+}
+
+const describeConflict = (mutation: PendingMutation): string => {
+  const conflict = mutation.conflict
+  if (!conflict) return ''
+  if (conflict.reason === 'deleted') return 'Deleted by someone else'
+  if (conflict.reason === 'rejected') return `Not saved: ${conflict.message || 'the change was refused'}`
+  const server = conflict.server
+  return server
+    ? `Theirs: ${formatCurrency(server.cost, server.currency)} ${formatCycle(server)}, ${server.status}`
+    : 'Changed by someone else'
+}
+
+// Header indicator for whether subscription changes have reached the database, with
+// the conflicts that need a decision. Retries queued changes when connectivity returns.
+export default function SyncStatus({ userId }: SyncStatusProps) {
+  const [status, setStatus] = useState<SyncStatusValue>(() => getSyncStatus())
+  const [isOpen, setIsOpen] = useState(false)
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncStatus(setStatus)
+    const handleOnline = () => {
+      flushMutations(userId)
+    }
+    // Nothing can be sent while offline; just show that changes are waiting
+    const handleOffline = () => {
+      refreshSyncStatus(userId)
+    }
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    flushMutations(userId)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [userId])
+
+  const conflictCount = status.conflicts.length
+  const waiting = status.pending - conflictCount
+
+  let dotClassName = 'bg-green-400'
+  let label = 'Synced'
+  if (conflictCount > 0) {
+    dotClassName = 'bg-red-400'
+    label = `${conflictCount} conflict${conflictCount === 1 ? '' : 's'}`
+  } else if (status.state === 'syncing') {
+    dotClassName = 'bg-blue-400 animate-pulse'
+    label = 'Syncing...'
+  } else if (status.state === 'offline') {
+    dotClassName = 'bg-yellow-400'
+    label = `Offline${waiting > 0 ? ` · ${waiting} pending` : ''}`
+  } else if (status.state === 'error') {
+    dotClassName = 'bg-yellow-400'
+    label = `${waiting} not synced`
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-1 bg-gray-900 border border-gray-800 rounded-full text-xs text-gray-300 hover:border-gray-700 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className={`w-2 h-2 rounded-full ${dotClassName}`}></span>
+        {label}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900 border border-gray-800 rounded-xl p-4 z-50 shadow-lg">
+          <p className="text-gray-400 text-xs mb-3">
+            {waiting > 0
+              ? `${waiting} change${waiting === 1 ? '' : 's'} saved on this device, to be sent when you are back online.`
+              : 'All changes on this device have been saved.'}
+            {status.lastSyncedAt && ` Last synced ${status.lastSyncedAt.toLocaleTimeString()}.`}
+          </p>
+
+          {waiting > 0 && (
+            <button
+              type="button"
+              onClick={() => flushMutations(userId)}
+              className="w-full px-3 py-2 mb-3 border border-gray-700 text-gray-300 rounded-lg text-xs font-medium hover:bg-gray-800 transition-colors"
+            >
+              Retry now
+            </button>
+          )}
+
+          {status.conflicts.map((mutation) => (
+            <div key={mutation.seq} className="border-t border-gray-800 pt-3 mt-3">
+              <div className="text-white text-sm font-medium">
+                {mutation.subscription?.name || mutation.base?.name || mutation.conflict?.server?.name || 'Subscription'}
+              </div>
+              <div className="text-gray-400 text-xs mt-1">{describeChange(mutation)}</div>
+              <div className="text-red-400 text-xs">{describeConflict(mutation)}</div>
+              <div className="flex gap-2 mt-2">
+                {mutation.conflict?.reason !== 'rejected' && (
+                  <button
+                    type="button"
+                    onClick={() => resolveConflict(mutation, 'mine')}
+                    className="flex-1 px-3 py-1 bg-pastel-blue text-black rounded-lg text-xs font-semibold"
+                  >
+                    Keep mine
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => resolveConflict(mutation, 'theirs')}
+                  className="flex-1 px-3 py-1 border border-gray-700 text-gray-300 rounded-lg text-xs font-medium hover:bg-gray-800 transition-colors"
+                >
+                  {mutation.conflict?.reason === 'rejected' ? 'Discard' : 'Keep theirs'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceInvitation,
+  WorkspaceRole,
+  INVITE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  getCurrentWorkspace,
+  setCurrentWorkspace,
+  loadWorkspaces,
+  selectCurrentWorkspace,
+  createWorkspace,
+  renameWorkspace,
+  validateWorkspaceName,
+  loadWorkspaceMembers,
+  updateMemberRole,
+  removeMember,
+  loadWorkspaceInvitations,
+  inviteToWorkspace,
+  revokeInvitation
+} from '../lib/workspaces'
+
+interface WorkspaceSettingsProps {
+  userId: string
+  // Called after switching to another workspace (by creating or leaving one)
+  onChange: (workspace: Workspace) => void
+}
+
+// Settings card for the current workspace: its name, members, invitations, and creating new workspaces
+export default function WorkspaceSettings({ userId, onChange }: WorkspaceSettingsProps) {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null)
+  const [members, setMembers] = useState<WorkspaceMember[]>([])
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+  const [nameDraft, setNameDraft] = useState('')
+  const [invite, setInvite] = useState<{ email: string; role: WorkspaceRole }>({ email: '', role: 'editor' })
+  const [newWorkspaceName, setNewWorkspaceName] = useState('')
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+  const [isInviting, setIsInviting] = useState(false)
+
+  const isOwner = workspace?.role === 'owner'
+
+  const loadWorkspaceDetails = async (current: Workspace) => {
+    setWorkspace(current)
+    setNameDraft(current.name)
+    setMembers(await loadWorkspaceMembers(current.id))
+    setInvitations(current.role === 'owner' ? await loadWorkspaceInvitations(current.id) : [])
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      const current = await getCurrentWorkspace(userId)
+      if (current) {
+        await loadWorkspaceDetails(current)
+      }
+    }
+    load()
+  }, [userId])
+
+  const switchTo = async (selected: Workspace) => {
+    setCurrentWorkspace(selected, userId)
+    await loadWorkspaceDetails(selected)
+    onChange(selected)
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!workspace || nameDraft.trim() === workspace.name) return
+
+    const error = validateWorkspaceName(nameDraft)
+    if (error) {
+      setMessage({ type: 'error', text: error })
+      return
+    }
+
+    if (await renameWorkspace(workspace.id, nameDraft)) {
+      const renamed = { ...workspace, name: nameDraft.trim() }
+      setWorkspace(renamed)
+      setCurrentWorkspace(renamed, userId)
+      setMessage({ type: 'success', text: 'Workspace renamed' })
+    } else {
+      setMessage({ type: 'error', text: 'Could not rename the workspace' })
+    }
+  }
+
+  const handleRoleChange = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (!workspace) return
+    if (await updateMemberRole(workspace.id, member.userId, role)) {
+      setMembers(prev => prev.map(existing => (existing.userId === member.userId ? { ...existing, role } : existing)))
+    } else {
+      setMessage({ type: 'error', text: 'Could not change the role' })
+    }
+  }
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!workspace) return
+    if (await removeMember(workspace.id, member.userId)) {
+      setMembers(prev => prev.filter(existing => existing.userId !== member.userId))
+    } else {
+      setMessage({ type: 'error', text: 'Could not remove the member' })
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!workspace || !(await removeMember(workspace.id, userId))) {
+      setMessage({ type: 'error', text: 'Could not leave the workspace' })
+      return
+    }
+
+    const remaining = await loadWorkspaces(userId)
+    const next = remaining ? selectCurrentWorkspace(remaining, userId) : null
+    if (next) {
+      await switchTo(next)
+      setMessage({ type: 'success', text: `You left the workspace and are now viewing ${next.name}` })
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!workspace) return
+
+    setIsInviting(true)
+    const result = await inviteToWorkspace(workspace.id, invite.email, invite.role)
+    setIsInviting(false)
+
+    if (!result.success) {
+      setMessage({ type: 'error', text: result.error || 'Failed to send invitation' })
+      return
+    }
+
+    setMessage({ type: 'success', text: `Invitation sent to ${invite.email.trim()}` })
+    setInvite({ email: '', role: invite.role })
+    setInvitations(await loadWorkspaceInvitations(workspace.id))
+  }
+
+  const handleRevokeInvitation = async (invitation: WorkspaceInvitation) => {
+    if (await revokeInvitation(invitation.id)) {
+      setInvitations(prev => prev.filter(existing => existing.id !== invitation.id))
+    }
+  }
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const error = validateWorkspaceName(newWorkspaceName)
+    if (error) {
+      setMessage({ type: 'error', text: error })
+      return
+    }
+
+    const created = await createWorkspace(newWorkspaceName, userId)
+    if (!created) {
+      setMessage({ type: 'error', text: 'Could not create the workspace' })
+      return
+    }
+
+    setNewWorkspaceName('')
+    await switchTo(created)
+    setMessage({ type: 'success', text: `Created ${created.name}. Invite people to share it.` })
+  }
+
+  if (!workspace) return null
+
+  return (
+    <div id="workspace" className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+      <div className="flex items-start gap-3 mb-4">
+        <svg className="w-5 h-5 text-teal-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+        </svg>
+        <div>
+          <div className="text-white font-semibold mb-1">Workspace</div>
+          <div className="text-gray-400 text-sm">Share subscriptions with your household or team</div>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm mb-4 ${message.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+
+      {/* Name */}
+      {isOwner ? (
+        <form onSubmit={handleRename} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={nameDraft}
+            onChange={(e) => setNameDraft(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue"
+            aria-label="Workspace name"
+          />
+          <button
+            type="submit"
+            disabled={nameDraft.trim() === workspace.name}
+            className="px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 touch-target"
+          >
+            Rename
+          </button>
+        </form>
+      ) : (
+        <div className="text-white text-sm mb-4">
+          {workspace.name} <span className="text-gray-400">({WORKSPACE_ROLE_LABELS[workspace.role]})</span>
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="text-gray-300 text-sm font-medium mb-2">Members</div>
+      <div className="space-y-2 mb-4">
+        {members.map((member) => (
+          <div key={member.userId} className="flex items-center justify-between gap-2">
+            <span className="flex-1 min-w-0 text-white text-sm truncate">
+              {member.email || 'Unknown'}{member.userId === userId ? ' (you)' : ''}
+            </span>
+            {isOwner && member.role !== 'owner' ? (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white text-xs focus:outline-none focus:border-pastel-blue"
+                  aria-label={`Role for ${member.email || 'member'}`}
+                >
+                  {INVITE_ROLES.map((role) => (
+                    <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleRemoveMember(member)}
+                  className="text-red-400 text-xs font-medium touch-target"
+                >
+                  Remove
+                </button>
+              </>
+            ) : (
+              <span className="text-gray-400 text-xs">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Invitations (owner only) */}
+      {isOwner && (
+        <>
+          {invitations.length > 0 && (
+            <div className="space-y-2 mb-4">
+              <div className="text-gray-300 text-sm font-medium">Pending invitations</div>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2">
+                  <span className="flex-1 min-w-0 text-gray-400 text-sm truncate">{invitation.email}</span>
+                  <span className="text-gray-400 text-xs">{WORKSPACE_ROLE_LABELS[invitation.role]}</span>
+                  <button
+                    onClick={() => handleRevokeInvitation(invitation)}
+                    className="text-red-400 text-xs font-medium touch-target"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="flex gap-2 mb-4">
+            <input
+              type="email"
+              placeholder="name@example.com"
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue"
+              aria-label="Email to invite"
+            />
+            <select
+              value={invite.role}
+              onChange={(e) => setInvite({ ...invite, role: e.target.value as WorkspaceRole })}
+              className="px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue"
+              aria-label="Role"
+            >
+              {INVITE_ROLES.map((role) => (
+                <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting || !invite.email.trim()}
+              className="px-3 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold disabled:opacity-50 touch-target"
+            >
+              {isInviting ? 'Sending...' : 'Invite'}
+            </button>
+          </form>
+        </>
+      )}
+
+      {!isOwner && (
+        <button
+          onClick={handleLeave}
+          className="w-full px-4 py-2 border border-red-800 text-red-400 rounded-lg text-sm font-medium hover:bg-red-900/30 transition-colors touch-target mb-4"
+        >
+          Leave workspace
+        </button>
+      )}
+
+      {/* New workspace */}
+      <form onSubmit={handleCreateWorkspace} className="flex gap-2 pt-4 border-t border-gray-800">
+        <input
+          type="text"
+          placeholder="New workspace name"
+          value={newWorkspaceName}
+          onChange={(e) => setNewWorkspaceName(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue"
+          aria-label="New workspace name"
+        />
+        <button
+          type="submit"
+          disabled={!newWorkspaceName.trim()}
+          className="px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 touch-target"
+        >
+          Create
+        </button>
+      </form>
+    </div>
+  )
+}
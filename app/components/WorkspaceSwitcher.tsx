@@ -0,0 +1,67 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Workspace, WORKSPACE_ROLE_LABELS, loadWorkspaces, selectCurrentWorkspace, getStoredWorkspace, setCurrentWorkspace } from '../lib/workspaces'
+
+interface WorkspaceSwitcherProps {
+  userId: string
+  // Called when the workspace being viewed changes, or the user's role in it does
+  onChange: (workspace: Workspace) => void
+}
+
+export default function WorkspaceSwitcher({ userId, onChange }: WorkspaceSwitcherProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [current, setCurrent] = useState<Workspace | null>(() => getStoredWorkspace(userId))
+
+  useEffect(() => {
+    const refresh = async () => {
+      const loaded = await loadWorkspaces(userId)
+      if (!loaded) return
+
+      const before = getStoredWorkspace(userId)
+      const selected = selectCurrentWorkspace(loaded, userId)
+      setWorkspaces(loaded)
+      setCurrent(selected)
+      if (selected && (selected.id !== before?.id || selected.role !== before?.role)) {
+        onChange(selected)
+      }
+    }
+    refresh()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId])
+
+  const handleSelect = (workspaceId: string) => {
+    const workspace = workspaces.find(ws => ws.id === workspaceId)
+    if (!workspace || workspace.id === current?.id) return
+    setCurrentWorkspace(workspace, userId)
+    setCurrent(workspace)
+    onChange(workspace)
+  }
+
+  if (!current) return null
+
+  return (
+    <div className="flex items-center gap-2 mt-3">
+      <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+      </svg>
+      <select
+        value={current.id}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="flex-1 bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-pastel-blue"
+        aria-label="Workspace"
+      >
+        {(workspaces.length > 0 ? workspaces : [current]).map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+      <span className="text-xs text-gray-400">{WORKSPACE_ROLE_LABELS[current.role]}</span>
+      <Link href="/dashboard/settings#workspace" className="text-xs text-pastel-blue hover:underline">
+        Manage
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  calculateTotalMonthlyCost,
+  calculateSpendByCategory,
+  calculateSpendByCycle,
+  projectMonthlySpend,
+  getTopSubscriptions,
+  formatCycle
+} from '../../lib/subscriptions'
+import { useDashboard } from '../../components/DashboardProvider'
+import { loadCurrencySettings, formatCurrency } from '../../lib/currency'
+import TabNavigation from '../../components/TabNavigation'
+import { CategoryIcon } from '../../components/CategoryIcon'
+import { loadCategories, CategoryDefinition } from '../../lib/categories'
+
+export default function AnalyticsTab() {
+  const { userKey, userId, subscriptions } = useDashboard()
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+
+  useEffect(() => {
+    const loadData = async () => {
+      setCategories(await loadCategories(userKey, userId))
+    }
+    loadData()
+  }, [userKey, userId])
+
+  const currencySettings = loadCurrencySettings()
+  const homeCurrency = currencySettings.homeCurrency
+  const totalMonthlyCost = calculateTotalMonthlyCost(subscriptions, currencySettings)
+  const spendByCategory = calculateSpendByCategory(subscriptions, currencySettings)
+  const spendByCycle = calculateSpendByCycle(subscriptions, currencySettings)
+  const projection = projectMonthlySpend(subscriptions, 12, currencySettings)
+  const projectedTotal = projection.reduce((total, month) => total + month.amount, 0)
+  const maxProjected = Math.max(...projection.map(month => month.amount), 1)
+  const topSubscriptions = getTopSubscriptions(subscriptions, 5, currencySettings)
+
+  return (
+    <div className="min-h-screen bg-black pb-20">
+      <div className="max-w-md mx-auto px-4 pt-8">
+        {/* Header */}
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-1">
+            <svg className="w-6 h-6 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            <h1 className="text-2xl font-bold text-white">Spending analytics</h1>
+          </div>
+          <p className="text-gray-400 text-sm">See where your money goes</p>
+        </div>
+
+        {subscriptions.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-400 mb-2">No subs found</p>
+            <p className="text-gray-500 text-sm">Add subscriptions to see your spending breakdown</p>
+          </div>
+        ) : (
+          <div className="space-y-4 mb-20">
+            {/* Projected Spend Card */}
+            <div className="bg-pastel-blue rounded-2xl p-6">
+              <div className="text-black">
+                <div className="text-sm font-medium mb-1">Next 12 months</div>
+                <div className="text-3xl font-bold mb-4">{formatCurrency(projectedTotal, homeCurrency)}</div>
+                <div className="flex items-end gap-1 h-24">
+                  {projection.map(({ month, amount }) => (
+                    <div key={month.getTime()} className="flex-1 flex flex-col items-center justify-end h-full">
+                      <div
+                        className="w-full bg-black/70 rounded-t"
+                        style={{ height: `${(amount / maxProjected) * 100}%` }}
+                        title={`${month.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })}: ${formatCurrency(amount, homeCurrency)}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-1 mt-1">
+                  {projection.map(({ month }) => (
+                    <div key={month.getTime()} className="flex-1 text-center text-[10px] text-black/70">
+                      {month.toLocaleDateString('en-US', { month: 'narrow', timeZone: 'UTC' })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Spend by Category */}
+            <div className="bg-gray-900 rounded-2xl p-4 border border-gray-800">
+              <h2 className="text-white font-semibold mb-4">By category</h2>
+              <div className="space-y-3">
+                {spendByCategory.map(({ category, monthlyCost }) => (
+                  <div key={category}>
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center gap-2">
+                        <CategoryIcon category={category} categories={categories} className="w-4 h-4" />
+                        <span className="text-gray-300 text-sm">{category}</span>
+                      </div>
+                      <span className="text-white text-sm font-medium">{formatCurrency(monthlyCost, homeCurrency)}/mo</span>
+                    </div>
+                    <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-pastel-blue rounded-full"
+                        style={{ width: `${totalMonthlyCost > 0 ? (monthlyCost / totalMonthlyCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Spend by Cycle */}
+            <div className="bg-gray-900 rounded-2xl p-4 border border-gray-800">
+              <h2 className="text-white font-semibold mb-4">By billing cycle</h2>
+              <div className="space-y-2">
+                {spendByCycle.map(({ cycle, monthlyCost, count }) => (
+                  <div key={cycle} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-300">
+                      {cycle} <span className="text-gray-500">({count})</span>
+                    </span>
+                    <span className="text-white font-medium">
+                      {formatCurrency(monthlyCost, homeCurrency)}/mo
+                      <span className="text-gray-500 ml-2">
+                        {totalMonthlyCost > 0 ? Math.round((monthlyCost / totalMonthlyCost) * 100) : 0}%
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Top Subscriptions */}
+            <div className="bg-gray-900 rounded-2xl p-4 border border-gray-800">
+              <h2 className="text-white font-semibold mb-4">Most expensive</h2>
+              <div className="space-y-3">
+                {topSubscriptions.map(({ subscription, monthlyCost }, index) => (
+                  <Link
+                    key={subscription.id}
+                    href={`/dashboard/subscription/${subscription.id}`}
+                    className="flex items-center justify-between"
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="text-gray-500 text-sm w-4">{index + 1}</span>
+                      <CategoryIcon category={subscription.category} categories={categories} className="w-5 h-5" />
+                      <div>
+                        <div className="text-white text-sm font-medium">{subscription.name}</div>
+                        <div className="text-gray-500 text-xs">
+                          {formatCurrency(subscription.cost, subscription.currency)} • {formatCycle(subscription)}
+                        </div>
+                      </div>
+                    </div>
+                    <span className="text-pastel-blue text-sm font-medium">{formatCurrency(monthlyCost, homeCurrency)}/mo</span>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <TabNavigation />
+    </div>
+  )
+}
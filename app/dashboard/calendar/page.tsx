@@ -1,112 +1,111 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Calendar from 'react-calendar'
 import 'react-calendar/dist/Calendar.css'
-import { getCurrentUser, isAuthenticated, getCurrentUserAsync, checkAuthentication, CurrentUser } from '../../lib/auth'
-import { loadSubscriptions, Subscription } from '../../lib/subscriptions'
+import { getMonthlyCost, convertSubscriptionCost, formatDate } from '../../lib/subscriptions'
+import { useDashboard } from '../../components/DashboardProvider'
+import { getOccurrences } from '../../lib/recurrence'
+import { loadPayments, savePayment, deletePayment, buildLedger, summarizeLedger, Payment, LedgerEntry } from '../../lib/payments'
+import PaymentDialog from '../../components/PaymentDialog'
+import { loadCurrencySettings, formatCurrency } from '../../lib/currency'
+import { loadNotificationSettings } from '../../lib/notifications'
+import { buildCalendar } from '../../lib/ical'
+import { downloadFile } from '../../lib/import-export'
 import TabNavigation from '../../components/TabNavigation'
 
 type ValuePiece = Date | null
 type Value = ValuePiece | [ValuePiece, ValuePiece]
 
+// First and last day of a month, as UTC calendar days comparable with renewal dates
+const getMonthRange = (date: Date): [Date, Date] => {
+  const year = date.getFullYear()
+  const month = date.getMonth()
+  return [new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month + 1, 0))]
+}
+
 export default function CalendarTab() {
-  const router = useRouter()
-  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const { userKey, userId, subscriptions, canEdit } = useDashboard()
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
   const [viewDate, setViewDate] = useState<Date>(new Date())
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [recordingEntry, setRecordingEntry] = useState<LedgerEntry | null>(null)
 
-  const loadData = async () => {
-    if (typeof window === 'undefined') return
-    
-    const isAuth = await checkAuthentication()
-    if (!isAuth) {
-      router.push('/')
-      return
+  // Load the payments recorded for the month being viewed
+  const viewYear = viewDate.getFullYear()
+  const viewMonth = viewDate.getMonth()
+  useEffect(() => {
+    const loadMonthPayments = async () => {
+      const [monthStart, monthEnd] = getMonthRange(new Date(viewYear, viewMonth, 1))
+      setPayments(await loadPayments(monthStart, monthEnd, userKey, userId))
     }
+    loadMonthPayments()
+  }, [userKey, userId, viewYear, viewMonth])
 
-    const user = await getCurrentUserAsync()
-    if (user) {
-      setCurrentUser(user)
-      const userKey = user.id || user.username
-      const userId = user.id
-      const loaded = await loadSubscriptions(userKey, userId)
-      setSubscriptions(loaded)
+  const handleSavePayment = async (payment: Payment) => {
+    const result = await savePayment(payment, userKey, userId)
+    if (result.success) {
+      setPayments(prev => [...prev.filter(existing => existing.id !== payment.id), payment])
+      setRecordingEntry(null)
     }
+    return result
   }
 
-  useEffect(() => {
-    loadData()
-  }, [router])
-
-  // Reload data when page comes into focus
-  useEffect(() => {
-    const handleFocus = async () => {
-      if (currentUser) {
-        const userKey = currentUser.id || currentUser.username
-        const userId = currentUser.id
-        const loaded = await loadSubscriptions(userKey, userId)
-        setSubscriptions(loaded)
-      }
+  const handleClearPayment = async (payment: Payment) => {
+    const result = await deletePayment(payment, userKey, userId)
+    if (result.success) {
+      setPayments(prev => prev.filter(existing => existing.id !== payment.id))
+      setRecordingEntry(null)
     }
-    window.addEventListener('focus', handleFocus)
-    return () => window.removeEventListener('focus', handleFocus)
-  }, [currentUser])
-
-  if (!currentUser) {
-    return null
+    return result
   }
 
+  const currencySettings = loadCurrencySettings()
+
   // Calculate monthly renewal amount for selected month
   const calculateMonthlyRenewal = (date: Date): number => {
-    const year = date.getFullYear()
-    const month = date.getMonth()
+    const [monthStart, monthEnd] = getMonthRange(date)
     
     const activeSubs = subscriptions.filter(sub => sub.status === 'Active')
-    const renewalsInMonth = activeSubs.filter(sub => {
-      const renewalDate = new Date(sub.renewalDate)
-      return renewalDate.getFullYear() === year && renewalDate.getMonth() === month
-    })
+    const renewalsInMonth = activeSubs.filter(sub => getOccurrences(sub, monthStart, monthEnd).length > 0)
 
-    return renewalsInMonth.reduce((total, sub) => {
-      if (sub.cycle === 'Monthly') {
-        return total + sub.cost
-      } else {
-        // For annual subscriptions, only count if renewal is in this month
-        return total + (sub.cost / 12)
-      }
-    }, 0)
-  }
-
-  // Get renewal dates for marking on calendar
-  const getRenewalDates = (): Date[] => {
-    const activeSubs = subscriptions.filter(sub => sub.status === 'Active')
-    return activeSubs.map(sub => {
-      const date = new Date(sub.renewalDate)
-      date.setHours(0, 0, 0, 0)
-      return date
-    })
+    // Each renewing subscription contributes its cost normalised to one month, in the home currency
+    return renewalsInMonth.reduce((total, sub) => total + convertSubscriptionCost(getMonthlyCost(sub), sub, currencySettings), 0)
   }
 
-  const renewalDates = getRenewalDates()
+  // Every expected payment in the visible month, with what was recorded for it
+  const ledger = buildLedger(subscriptions, payments, ...getMonthRange(viewDate))
+  const ledgerSummary = summarizeLedger(ledger, currencySettings)
   const monthlyAmount = calculateMonthlyRenewal(viewDate)
 
-  // Custom tile content to mark renewal dates
+  // Custom tile content to mark renewal dates: red if a payment was missed,
+  // green once all are paid, blue otherwise
   const tileContent = ({ date }: { date: Date }) => {
-    const dateStr = date.toDateString()
-    const hasRenewal = renewalDates.some(rd => rd.toDateString() === dateStr)
+    const entries = ledger.filter(entry =>
+      entry.dueDate.getUTCFullYear() === date.getFullYear() &&
+      entry.dueDate.getUTCMonth() === date.getMonth() &&
+      entry.dueDate.getUTCDate() === date.getDate()
+    )
     
-    if (hasRenewal) {
+    if (entries.length > 0) {
+      const color = entries.some(entry => entry.state === 'missed')
+        ? 'bg-red-400'
+        : entries.every(entry => entry.state === 'paid') ? 'bg-green-400' : 'bg-pastel-blue'
       return (
-        <div className="absolute top-1 left-1/2 transform -translate-x-1/2 w-1.5 h-1.5 bg-pastel-blue rounded-full" />
+        <div className={`absolute top-1 left-1/2 transform -translate-x-1/2 w-1.5 h-1.5 ${color} rounded-full`} />
       )
     }
     return null
   }
 
+  // Download all renewals as an .ics file for Google Calendar, Outlook, etc.
+  const handleExportCalendar = async () => {
+    const settings = await loadNotificationSettings(userId)
+    const calendar = buildCalendar(subscriptions, { timeframe: settings.timeframe })
+    downloadFile(calendar, 'renewals.ics', 'text/calendar')
+  }
+
   // Navigate months
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newDate = new Date(viewDate)
@@ -141,12 +140,28 @@ export default function CalendarTab() {
               </svg>
               <span className="text-sm font-medium">{viewDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })} renewals</span>
             </div>
-            <div className="text-3xl font-bold">₹{monthlyAmount.toFixed(2)}</div>
+            <div className="text-3xl font-bold">{formatCurrency(monthlyAmount, currencySettings.homeCurrency)}</div>
+            {ledger.length > 0 && (
+              <div className="text-sm mt-1 text-black/70">
+                Paid {formatCurrency(ledgerSummary.paid, currencySettings.homeCurrency)} of {formatCurrency(ledgerSummary.expected, currencySettings.homeCurrency)} expected
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Export Calendar */}
+        <button
+          onClick={handleExportCalendar}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 mb-6 border border-gray-800 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-900 transition-colors touch-target"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          Export to calendar (.ics)
+        </button>
+
         {/* Calendar */}
-        <div className="mb-20">
+        <div className="mb-6">
           {/* Month Navigation */}
           <div className="flex items-center justify-between mb-4">
             <button
@@ -243,15 +258,62 @@ export default function CalendarTab() {
           </div>
         </div>
 
+        {/* Payments */}
+        {ledger.length > 0 && (
+          <div className="mb-20">
+            <h2 className="text-white font-semibold mb-3">Payments</h2>
+            <div className="space-y-2">
+              {ledger.map((entry) => (
+                <button
+                  key={`${entry.subscription.id}-${entry.dueDate.getTime()}`}
+                  type="button"
+                  onClick={() => setRecordingEntry(entry)}
+                  disabled={!canEdit || entry.state === 'upcoming'}
+                  className="w-full flex items-center justify-between gap-3 px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-left text-sm"
+                >
+                  <span className="min-w-0">
+                    <span className="block text-white truncate">{entry.subscription.name}</span>
+                    <span className="block text-gray-500 text-xs">
+                      {formatDate(entry.dueDate)} &middot; expected {formatCurrency(entry.expectedAmount, entry.subscription.currency)}
+                    </span>
+                  </span>
+                  {entry.state === 'paid' ? (
+                    <span className="text-green-400 whitespace-nowrap">
+                      Paid {formatCurrency(entry.payment!.amount || 0, entry.payment!.currency)}
+                    </span>
+                  ) : entry.state === 'missed' ? (
+                    <span className="text-red-400 whitespace-nowrap">Missed</span>
+                  ) : entry.state === 'upcoming' ? (
+                    <span className="text-gray-500 whitespace-nowrap">Upcoming</span>
+                  ) : (
+                    <span className="text-pastel-blue whitespace-nowrap">{canEdit ? 'Record' : 'Unrecorded'}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {recordingEntry && (
+          <PaymentDialog
+            entry={recordingEntry}
+            onSave={handleSavePayment}
+            onClear={handleClearPayment}
+            onClose={() => setRecordingEntry(null)}
+          />
+        )}
+
         {/* Plus Button */}
-        <Link
-          href="/dashboard/add"
-          className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
-        >
-          <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-        </Link>
+        {canEdit && (
+          <Link
+            href="/dashboard/add"
+            className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
+          >
+            <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </Link>
+        )}
       </div>
 
       <TabNavigation />
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { generateSubscriptionId, formDataToSubscription } from '../../lib/subscriptions'
+import { useDashboard } from '../../components/DashboardProvider'
+import { parseSubscriptionsFile, ImportPreviewRow } from '../../lib/import-export'
+import { formatCurrency } from '../../lib/currency'
+import { loadCategories, CategoryDefinition } from '../../lib/categories'
+import { loadPaymentMethods, PaymentMethod } from '../../lib/payment-methods'
+
+export default function ImportSubscriptionsPage() {
+  const router = useRouter()
+  const { userKey, userId, subscriptions, canEdit, saveSubscription } = useDashboard()
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<ImportPreviewRow[]>([])
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  useEffect(() => {
+    // Workspace viewers cannot add subscriptions
+    if (!canEdit) {
+      router.replace('/dashboard')
+      return
+    }
+
+    const loadData = async () => {
+      setCategories(await loadCategories(userKey, userId))
+      setPaymentMethods(await loadPaymentMethods(userKey, userId))
+    }
+    loadData()
+  }, [router, canEdit, userKey, userId])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const content = await file.text()
+    const result = parseSubscriptionsFile(content, file.name, subscriptions, categories, paymentMethods)
+    setFileName(file.name)
+    setRows(result.rows)
+    setError(result.error || null)
+  }
+
+  const importableRows = rows.filter(row =>
+    Object.keys(row.errors).length === 0 && (includeDuplicates || !row.duplicate)
+  )
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return
+
+    setIsImporting(true)
+    setError(null)
+    const imported: number[] = []
+    const failed: number[] = []
+    for (const row of importableRows) {
+      try {
+        await saveSubscription(formDataToSubscription(row.formData, generateSubscriptionId()))
+        imported.push(row.rowNumber)
+      } catch (err) {
+        console.error(`Error importing row ${row.rowNumber}:`, err)
+        failed.push(row.rowNumber)
+      }
+    }
+
+    if (failed.length === 0) {
+      router.push('/dashboard/list')
+      return
+    }
+
+    // Leave only the rows that failed (and any not imported) to try again
+    setRows(prev => prev.filter(row => !imported.includes(row.rowNumber)))
+    setError(`Imported ${imported.length} of ${imported.length + failed.length} rows. ${failed.length === 1 ? 'Row' : 'Rows'} ${failed.map(rowNumber => `#${rowNumber}`).join(', ')} could not be saved; import again to retry.`)
+    setIsImporting(false)
+  }
+
+  const handleCancel = () => {
+    router.back()
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-md mx-auto px-4 pt-8 pb-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-white">Import Subscriptions</h1>
+          <button
+            onClick={handleCancel}
+            className="text-gray-400 hover:text-white transition-colors touch-target"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* File Picker */}
+        <label className="block w-full text-center px-4 py-6 border-2 border-dashed border-gray-800 rounded-2xl text-gray-300 hover:border-gray-700 transition-colors cursor-pointer mb-4">
+          <div className="font-medium mb-1">{fileName || 'Choose a CSV or JSON file'}</div>
+          <div className="text-gray-500 text-xs">
+            Columns: name, cost, currency, renewalDate, cycle, intervalCount, intervalUnit, status, category, trialStartDate, trialEndDate, postTrialCost, cancellationDate, activeUntil
+          </div>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+        </label>
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-800 text-red-200 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {/* Preview */}
+        {rows.length > 0 && (
+          <>
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-gray-400 text-sm">
+                {importableRows.length} of {rows.length} rows will be imported
+              </span>
+              {rows.some(row => row.duplicate) && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                  />
+                  Include duplicates
+                </label>
+              )}
+            </div>
+
+            <div className="space-y-2 mb-6">
+              {rows.map((row) => {
+                const errors = Object.values(row.errors)
+                const cost = parseFloat(row.formData.cost)
+                return (
+                  <div
+                    key={row.rowNumber}
+                    className={`bg-gray-900 rounded-xl p-3 border ${
+                      errors.length > 0 ? 'border-red-800' : row.duplicate ? 'border-yellow-800' : 'border-gray-800'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="text-white text-sm font-medium">
+                          <span className="text-gray-500 mr-2">#{row.rowNumber}</span>
+                          {row.formData.name || 'Unnamed'}
+                        </div>
+                        <div className="text-gray-500 text-xs mt-1">
+                          {isNaN(cost) ? row.formData.cost : formatCurrency(cost, row.formData.currency)} • {row.formData.cycle} • {(row.formData.status === 'Trial' ? row.formData.trialEndDate : row.formData.renewalDate) || 'No date'}
+                        </div>
+                      </div>
+                      {errors.length === 0 && row.duplicate && (
+                        <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-900/30 text-yellow-400">
+                          Duplicate
+                        </span>
+                      )}
+                    </div>
+                    {errors.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {errors.map((message) => (
+                          <li key={message} className="text-xs text-red-400">{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="flex-1 px-4 py-3 border border-gray-800 text-gray-300 rounded-lg hover:bg-gray-900 font-medium transition-colors touch-target"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || importableRows.length === 0}
+                className="flex-1 px-4 py-3 bg-pastel-blue text-black rounded-lg hover:bg-pastel-blue-dark font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+              >
+                {isImporting ? 'Importing...' : `Import ${importableRows.length}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
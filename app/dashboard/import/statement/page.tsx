@@ -0,0 +1,204 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { subscriptionToFormData, validateSubscriptionForm, formatCycle, formatDate, Subscription } from '../../../lib/subscriptions'
+import { parseStatementFile, findRecurringCharges, RecurringCandidate } from '../../../lib/statement-import'
+import { formatCurrency, loadCurrencySettings } from '../../../lib/currency'
+import { loadCategories, CategoryDefinition } from '../../../lib/categories'
+import { useDashboard } from '../../../components/DashboardProvider'
+
+export default function ImportStatementPage() {
+  const router = useRouter()
+  const { userKey, userId, subscriptions, canEdit, saveSubscription } = useDashboard()
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [transactionCount, setTransactionCount] = useState(0)
+  const [candidates, setCandidates] = useState<RecurringCandidate[]>([])
+  const [acceptedCount, setAcceptedCount] = useState(0)
+  const [candidateErrors, setCandidateErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    // Workspace viewers cannot add subscriptions
+    if (!canEdit) {
+      router.replace('/dashboard')
+      return
+    }
+
+    const loadData = async () => {
+      setCategories(await loadCategories(userKey, userId))
+    }
+    loadData()
+  }, [router, canEdit, userKey, userId])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const content = await file.text()
+    const result = parseStatementFile(content, file.name)
+    const found = findRecurringCharges(result.transactions, subscriptions, {
+      currency: loadCurrencySettings().homeCurrency,
+      category: categories[0]?.name || 'Other'
+    })
+    setFileName(file.name)
+    setTransactionCount(result.transactions.length)
+    setCandidates(found)
+    setCandidateErrors({})
+    setAcceptedCount(0)
+    setError(result.error || (found.length === 0 ? 'No recurring charges found in this statement' : null))
+  }
+
+  const updateCandidate = (id: string, changes: Partial<Subscription>) => {
+    setCandidates(prev => prev.map(candidate =>
+      candidate.subscription.id === id ? { ...candidate, subscription: { ...candidate.subscription, ...changes } } : candidate
+    ))
+  }
+
+  const handleDismiss = (id: string) => {
+    setCandidates(prev => prev.filter(candidate => candidate.subscription.id !== id))
+  }
+
+  const handleAccept = async (candidate: RecurringCandidate) => {
+    const subscription = { ...candidate.subscription, name: candidate.subscription.name.trim() }
+    const errors = Object.values(validateSubscriptionForm(subscriptionToFormData(subscription)))
+    if (errors.length > 0) {
+      setCandidateErrors(prev => ({ ...prev, [subscription.id]: errors[0] }))
+      return
+    }
+
+    setSavingId(subscription.id)
+    await saveSubscription(subscription)
+    setCandidates(prev => prev.filter(existing => existing.subscription.id !== subscription.id))
+    setAcceptedCount(prev => prev + 1)
+    setSavingId(null)
+  }
+
+  const handleCancel = () => {
+    router.back()
+  }
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-pastel-blue'
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-md mx-auto px-4 pt-8 pb-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-white">Import Statement</h1>
+          <button
+            onClick={handleCancel}
+            className="text-gray-400 hover:text-white transition-colors touch-target"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* File Picker */}
+        <label className="block w-full text-center px-4 py-6 border-2 border-dashed border-gray-800 rounded-2xl text-gray-300 hover:border-gray-700 transition-colors cursor-pointer mb-4">
+          <div className="font-medium mb-1">{fileName || 'Choose a bank or card statement'}</div>
+          <div className="text-gray-500 text-xs">
+            CSV (with date, description and amount columns) or OFX. A few months of history finds monthly charges; annual ones need more than a year.
+          </div>
+          <input type="file" accept=".csv,.ofx,.qfx,text/csv,application/x-ofx" onChange={handleFileChange} className="hidden" />
+        </label>
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-800 text-red-200 px-4 py-3 rounded-lg text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {fileName && transactionCount > 0 && (
+          <p className="text-gray-400 text-sm mb-3">
+            {transactionCount} charges checked &middot; {candidates.length} recurring {candidates.length === 1 ? 'charge' : 'charges'} to review
+            {acceptedCount > 0 && <> &middot; {acceptedCount} added</>}
+          </p>
+        )}
+
+        {/* Candidates */}
+        <div className="space-y-3 mb-6">
+          {candidates.map((candidate) => {
+            const sub = candidate.subscription
+            const candidateError = candidateErrors[sub.id]
+            return (
+              <div
+                key={sub.id}
+                className={`bg-gray-900 rounded-xl p-4 border ${candidate.duplicate || candidate.lapsed ? 'border-yellow-800' : 'border-gray-800'}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={sub.name}
+                    onChange={(e) => updateCandidate(sub.id, { name: e.target.value })}
+                    maxLength={100}
+                    className={inputClassName}
+                    aria-label="Name"
+                  />
+                  <select
+                    value={sub.category}
+                    onChange={(e) => updateCandidate(sub.id, { category: e.target.value })}
+                    className={`${inputClassName} w-36`}
+                    aria-label="Category"
+                  >
+                    {categories.map((category) => (
+                      <option key={category.name} value={category.name}>{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="text-white text-sm">
+                  {formatCurrency(sub.cost, sub.currency)} &middot; {formatCycle(sub)} &middot; next {formatDate(sub.renewalDate)}
+                </div>
+                <div className="text-gray-500 text-xs mt-1">
+                  {candidate.transactions.length} charges, last on {formatDate(candidate.lastCharged)} as &ldquo;{candidate.transactions[candidate.transactions.length - 1].description}&rdquo;
+                </div>
+                {candidate.duplicate && (
+                  <div className="text-yellow-400 text-xs mt-1">Looks like a subscription you already track</div>
+                )}
+                {candidate.lapsed && (
+                  <div className="text-yellow-400 text-xs mt-1">No charge for over a cycle &mdash; it may have been cancelled</div>
+                )}
+                {candidateError && (
+                  <div className="text-red-400 text-xs mt-1">{candidateError}</div>
+                )}
+                <div className="flex gap-3 mt-3">
+                  <button
+                    type="button"
+                    onClick={() => handleDismiss(sub.id)}
+                    disabled={savingId === sub.id}
+                    className="flex-1 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 touch-target"
+                  >
+                    Dismiss
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleAccept(candidate)}
+                    disabled={savingId === sub.id}
+                    className="flex-1 px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold hover:bg-pastel-blue-dark transition-colors disabled:opacity-50 touch-target"
+                  >
+                    {savingId === sub.id ? 'Adding...' : 'Add'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {fileName && candidates.length === 0 && acceptedCount > 0 && (
+          <button
+            type="button"
+            onClick={() => router.push('/dashboard/list')}
+            className="w-full px-4 py-3 bg-pastel-blue text-black rounded-lg hover:bg-pastel-blue-dark font-semibold transition-colors touch-target"
+          >
+            View subscriptions
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import DashboardProvider from '../components/DashboardProvider'
+
+// Every dashboard page shares one signed-in user and subscription list (see DashboardProvider)
+export default function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <DashboardProvider>{children}</DashboardProvider>
+}
@@ -1,60 +1,65 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { getCurrentUser, isAuthenticated, getCurrentUserAsync, checkAuthentication, CurrentUser } from '../../lib/auth'
-import { loadSubscriptions, formatDate, Subscription, Category } from '../../lib/subscriptions'
+import { takeDeletedSubscription, formatDate, formatCycle, isRenewing, getMyMonthlyCost, convertSubscriptionCost, Subscription, Category, Status, STATUSES } from '../../lib/subscriptions'
+import { useDashboard } from '../../components/DashboardProvider'
 import TabNavigation from '../../components/TabNavigation'
 import { CategoryIcon } from '../../components/CategoryIcon'
+import { getOccurrences, getToday } from '../../lib/recurrence'
+import { formatCurrency, loadCurrencySettings } from '../../lib/currency'
+import { getTrialDaysLeft, formatTrialEnding } from '../../lib/trials'
+import { loadCategories, CategoryDefinition } from '../../lib/categories'
+import { getMyShare } from '../../lib/splits'
+import { loadPaymentMethods, findPaymentMethod, expiresBeforeRenewal, formatPaymentMethod, formatExpiry, PaymentMethod } from '../../lib/payment-methods'
+
+const statusStyles: Record<Status, string> = {
+  Active: 'bg-green-900/30 text-green-400',
+  Trial: 'bg-yellow-900/30 text-yellow-400',
+  Paused: 'bg-blue-900/30 text-blue-400',
+  Cancelled: 'bg-red-900/30 text-red-400',
+  Expired: 'bg-gray-800 text-gray-400'
+}
 
 export default function ListTab() {
-  const router = useRouter()
-  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
+  const { userKey, userId, subscriptions, canEdit, saveSubscription } = useDashboard()
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<Category | 'All'>('All')
+  const [selectedStatus, setSelectedStatus] = useState<Status | 'All'>('All')
   const [timeFilter, setTimeFilter] = useState<'All' | 'This Week' | 'This Month' | 'Next Month'>('All')
+  const [groupBy, setGroupBy] = useState<'None' | 'Payment method'>('None')
+  const [deletedSubscription, setDeletedSubscription] = useState<Subscription | null>(null)
 
-  const loadData = async () => {
-    if (typeof window === 'undefined') return
-    
-    const isAuth = await checkAuthentication()
-    if (!isAuth) {
-      router.push('/')
-      return
+  useEffect(() => {
+    const loadData = async () => {
+      setCategories(await loadCategories(userKey, userId))
+      setPaymentMethods(await loadPaymentMethods(userKey, userId))
     }
+    loadData()
+  }, [userKey, userId])
 
-    const user = await getCurrentUserAsync()
-    if (user) {
-      setCurrentUser(user)
-      const userKey = user.id || user.username
-      const userId = user.id
-      const loaded = await loadSubscriptions(userKey, userId)
-      setSubscriptions(loaded)
+  // Offer undo for a subscription deleted from the detail page
+  useEffect(() => {
+    const deleted = takeDeletedSubscription()
+    if (deleted) {
+      setDeletedSubscription(deleted)
     }
-  }
+  }, [])
 
   useEffect(() => {
-    loadData()
-  }, [router])
+    if (!deletedSubscription) return
+    const timeout = setTimeout(() => setDeletedSubscription(null), 8000)
+    return () => clearTimeout(timeout)
+  }, [deletedSubscription])
 
-  // Reload data when page comes into focus
-  useEffect(() => {
-    const handleFocus = async () => {
-      if (currentUser) {
-        const userKey = currentUser.id || currentUser.username
-        const userId = currentUser.id
-        const loaded = await loadSubscriptions(userKey, userId)
-        setSubscriptions(loaded)
-      }
-    }
-    window.addEventListener('focus', handleFocus)
-    return () => window.removeEventListener('focus', handleFocus)
-  }, [currentUser])
+  const handleUndoDelete = async () => {
+    if (!deletedSubscription) return
 
-  if (!currentUser) {
-    return null
+    const restored = deletedSubscription
+    setDeletedSubscription(null)
+    await saveSubscription(restored)
   }
 
   const filterSubscriptions = () => {
@@ -72,36 +77,106 @@ export default function ListTab() {
       filtered = filtered.filter(sub => sub.category === selectedCategory)
     }
 
-    // Time filter
+    // Status filter
+    if (selectedStatus !== 'All') {
+      filtered = filtered.filter(sub => sub.status === selectedStatus)
+    }
+
+    // Time filter - matches any renewal in the window, not just the next one
     if (timeFilter !== 'All') {
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-
-      filtered = filtered.filter(sub => {
-        const renewalDate = new Date(sub.renewalDate)
-        renewalDate.setHours(0, 0, 0, 0)
-
-        if (timeFilter === 'This Week') {
-          const weekFromNow = new Date(today)
-          weekFromNow.setDate(today.getDate() + 7)
-          return renewalDate >= today && renewalDate <= weekFromNow
-        } else if (timeFilter === 'This Month') {
-          const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0)
-          return renewalDate >= today && renewalDate <= endOfMonth
-        } else if (timeFilter === 'Next Month') {
-          const startOfNextMonth = new Date(today.getFullYear(), today.getMonth() + 1, 1)
-          const endOfNextMonth = new Date(today.getFullYear(), today.getMonth() + 2, 0)
-          return renewalDate >= startOfNextMonth && renewalDate <= endOfNextMonth
-        }
-        return true
-      })
+      const today = getToday()
+      let windowStart = today
+      let windowEnd = today
+
+      if (timeFilter === 'This Week') {
+        windowEnd = new Date(today)
+        windowEnd.setUTCDate(today.getUTCDate() + 7)
+      } else if (timeFilter === 'This Month') {
+        windowEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0))
+      } else if (timeFilter === 'Next Month') {
+        windowStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1))
+        windowEnd = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 2, 0))
+      }
+
+      filtered = filtered.filter(sub => isRenewing(sub) && getOccurrences(sub, windowStart, windowEnd).length > 0)
     }
 
     return filtered
   }
 
   const filteredSubscriptions = filterSubscriptions()
-  const categories: Category[] = ['Software', 'Shopping', 'Design', 'Storage', 'Entertainment']
+
+  // Subscriptions per payment method, with what each one is charged a month (my share, in the
+  // home currency). Subscriptions without a known payment method come last.
+  const groupByPaymentMethod = () => {
+    const currencySettings = loadCurrencySettings()
+    const groups = [...paymentMethods, undefined].map(method => {
+      const members = filteredSubscriptions.filter(sub => findPaymentMethod(sub, paymentMethods) === method)
+      return {
+        key: method ? method.id : 'none',
+        title: method ? formatPaymentMethod(method) : 'No payment method',
+        subscriptions: members,
+        monthlyCost: members
+          .filter(sub => sub.status === 'Active')
+          .reduce((total, sub) => total + convertSubscriptionCost(getMyMonthlyCost(sub), sub, currencySettings), 0),
+        currency: currencySettings.homeCurrency
+      }
+    })
+    return groups.filter(group => group.subscriptions.length > 0)
+  }
+  // The workspace's categories, plus any still used by subscriptions after being removed
+  const categoryNames: Category[] = categories.map(category => category.name)
+  subscriptions.forEach(sub => {
+    if (!categoryNames.includes(sub.category)) categoryNames.push(sub.category)
+  })
+
+  const renderSubscription = (sub: Subscription) => (
+    <Link
+      key={sub.id}
+      href={`/dashboard/subscription/${sub.id}`}
+      className="block bg-gray-900 rounded-xl p-4 border border-gray-800 hover:border-gray-700 transition-colors"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start gap-3 flex-1">
+          <CategoryIcon category={sub.category} categories={categories} className="w-6 h-6 mt-0.5" />
+          <div className="flex-1">
+            <div className="font-semibold text-white mb-1">{sub.name}</div>
+            <div className="text-gray-400 text-sm mb-2">{sub.category}</div>
+            <div className="flex items-center gap-4 text-sm">
+              <span className="text-gray-500">
+                {sub.split ? (
+                  <>
+                    <span className="text-white">{formatCurrency(getMyShare(sub), sub.currency)}</span> of {formatCurrency(sub.cost, sub.currency)}
+                  </>
+                ) : formatCurrency(sub.cost, sub.currency)}
+              </span>
+              <span className="text-gray-500">•</span>
+              <span className="text-gray-500">{formatCycle(sub)}</span>
+              <span className="text-gray-500">•</span>
+              <span className={isRenewing(sub) ? 'text-pastel-blue' : 'text-gray-500 line-through'}>{formatDate(sub.renewalDate)}</span>
+            </div>
+            {sub.status === 'Trial' && getTrialDaysLeft(sub) !== null && (
+              <div className="text-yellow-400 text-xs mt-2">{formatTrialEnding(getTrialDaysLeft(sub)!)}</div>
+            )}
+            {sub.status === 'Cancelled' && sub.activeUntil && (
+              <div className="text-red-400 text-xs mt-2">Active until {formatDate(sub.activeUntil)}</div>
+            )}
+            {sub.status === 'Expired' && sub.activeUntil && (
+              <div className="text-gray-500 text-xs mt-2">Ended {formatDate(sub.activeUntil)}</div>
+            )}
+            {expiresBeforeRenewal(sub, findPaymentMethod(sub, paymentMethods)) && (
+              <div className="text-yellow-400 text-xs mt-2">
+                Card expires {formatExpiry(findPaymentMethod(sub, paymentMethods)!)}, before this renews
+              </div>
+            )}
+          </div>
+        </div>
+        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[sub.status]}`}>
+          {sub.status}
+        </span>
+      </div>
+    </Link>
+  )
 
   return (
     <div className="min-h-screen bg-black pb-20">
@@ -144,7 +219,7 @@ export default function ListTab() {
           <div>
             <label className="text-gray-400 text-xs mb-2 block">Category</label>
             <div className="flex flex-wrap gap-2">
-              {['All', ...categories].map((cat) => (
+              {['All', ...categoryNames].map((cat) => (
                 <button
                   key={cat}
                   onClick={() => setSelectedCategory(cat as Category | 'All')}
@@ -160,6 +235,46 @@ export default function ListTab() {
             </div>
           </div>
 
+          {/* Status Filter */}
+          <div>
+            <label className="text-gray-400 text-xs mb-2 block">Status</label>
+            <div className="flex flex-wrap gap-2">
+              {['All', ...STATUSES].map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setSelectedStatus(status as Status | 'All')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors touch-target ${
+                    selectedStatus === status
+                      ? 'bg-pastel-blue text-black'
+                      : 'bg-gray-900 text-gray-300 border border-gray-800'
+                  }`}
+                >
+                  {status}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Grouping */}
+          <div>
+            <label className="text-gray-400 text-xs mb-2 block">Group by</label>
+            <div className="flex flex-wrap gap-2">
+              {['None', 'Payment method'].map((grouping) => (
+                <button
+                  key={grouping}
+                  onClick={() => setGroupBy(grouping as typeof groupBy)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors touch-target ${
+                    groupBy === grouping
+                      ? 'bg-pastel-blue text-black'
+                      : 'bg-gray-900 text-gray-300 border border-gray-800'
+                  }`}
+                >
+                  {grouping}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Time Filter */}
           <div>
             <label className="text-gray-400 text-xs mb-2 block">Time</label>
@@ -189,50 +304,44 @@ export default function ListTab() {
           </div>
         ) : (
           <div className="space-y-3 mb-20">
-            {filteredSubscriptions.map((sub) => (
-              <div
-                key={sub.id}
-                className="bg-gray-900 rounded-xl p-4 border border-gray-800"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start gap-3 flex-1">
-                    <CategoryIcon category={sub.category} className="w-6 h-6 mt-0.5" />
-                    <div className="flex-1">
-                      <div className="font-semibold text-white mb-1">{sub.name}</div>
-                      <div className="text-gray-400 text-sm mb-2">{sub.category}</div>
-                      <div className="flex items-center gap-4 text-sm">
-                        <span className="text-gray-500">₹{sub.cost.toFixed(2)}</span>
-                        <span className="text-gray-500">•</span>
-                        <span className="text-gray-500">{sub.cycle}</span>
-                        <span className="text-gray-500">•</span>
-                        <span className="text-pastel-blue">{formatDate(sub.renewalDate)}</span>
-                      </div>
-                    </div>
+            {groupBy === 'Payment method'
+              ? groupByPaymentMethod().map((group) => (
+                <div key={group.key} className="space-y-3">
+                  <div className="flex items-center justify-between pt-2">
+                    <h2 className="text-white font-semibold text-sm">{group.title}</h2>
+                    <span className="text-gray-400 text-sm">{formatCurrency(group.monthlyCost, group.currency)}/mo</span>
                   </div>
-                  <span
-                    className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                      sub.status === 'Active'
-                        ? 'bg-green-900/30 text-green-400'
-                        : 'bg-yellow-900/30 text-yellow-400'
-                    }`}
-                  >
-                    {sub.status}
-                  </span>
+                  {group.subscriptions.map(renderSubscription)}
                 </div>
-              </div>
-            ))}
+              ))
+              : filteredSubscriptions.map(renderSubscription)}
+          </div>
+        )}
+
+        {/* Undo Delete Toast */}
+        {deletedSubscription && (
+          <div className="fixed bottom-40 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-sm bg-gray-800 border border-gray-700 rounded-xl px-4 py-3 flex items-center justify-between shadow-lg z-50">
+            <span className="text-white text-sm">Deleted {deletedSubscription.name}</span>
+            <button
+              onClick={handleUndoDelete}
+              className="text-pastel-blue text-sm font-semibold touch-target"
+            >
+              Undo
+            </button>
           </div>
         )}
 
         {/* Plus Button */}
-        <Link
-          href="/dashboard/add"
-          className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
-        >
-          <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-        </Link>
+        {canEdit && (
+          <Link
+            href="/dashboard/add"
+            className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
+          >
+            <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </Link>
+        )}
       </div>
 
       <TabNavigation />
@@ -1,177 +1,106 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { getCurrentUser, isAuthenticated, getCurrentUserAsync, checkAuthentication, CurrentUser } from '../lib/auth'
-import { loadSubscriptions, calculateTotalMonthlyCost, countRenewalsThisWeek, Subscription } from '../lib/subscriptions'
+import { cancelSubscription, calculateTotalMonthlyCost, countRenewalsThisWeek, formatCycle, formatDate, Subscription } from '../lib/subscriptions'
+import { useDashboard } from '../components/DashboardProvider'
 import TabNavigation from '../components/TabNavigation'
+import WorkspaceSwitcher from '../components/WorkspaceSwitcher'
+import SyncStatus from '../components/SyncStatus'
+import { loadCurrencySettings, formatCurrency } from '../lib/currency'
+import { loadBudgetSettings, calculateBudgetStatus, budgetsApplyTo, BudgetSettings, DEFAULT_BUDGET_SETTINGS } from '../lib/budgets'
+import { findEndingTrials, findConvertedTrials, getTrialDaysLeft, formatTrialEnding } from '../lib/trials'
+import { calculateSettlement, ME } from '../lib/splits'
+import { loadRecentPriceChanges, findPriceHikes, PriceChange } from '../lib/price-history'
+import { loadPayments, savePayment, deletePayment, buildLedger, summarizeLedger, getMonthRange, Payment, LedgerEntry } from '../lib/payments'
+import PaymentDialog from '../components/PaymentDialog'
+import { loadPaymentMethods, findPaymentMethod, findExpiringPaymentMethods, formatPaymentMethod, formatExpiry, PaymentMethod } from '../lib/payment-methods'
 
 export default function HomeTab() {
-  const router = useRouter()
-  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
-  const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [mounted, setMounted] = useState(false)
-
-  const loadData = async () => {
-    if (typeof window === 'undefined') return
-    
-    try {
-      setIsLoading(true)
-      setError(null)
-      
-      // Handle OAuth callback - check for tokens in URL hash first
-      const hashParams = new URLSearchParams(window.location.hash.substring(1))
-      const accessToken = hashParams.get('access_token')
-      const refreshToken = hashParams.get('refresh_token')
-      const errorParam = hashParams.get('error')
-      
-      if (errorParam) {
-        console.error('OAuth error in URL hash:', errorParam)
-        setError(`OAuth error: ${errorParam}`)
-        setIsLoading(false)
-        return
-      }
-      
-      if (accessToken && refreshToken) {
-        console.log('Found OAuth tokens in URL hash, setting session...')
-        try {
-          const { getSupabaseClient } = await import('../lib/supabase-client')
-          const supabase = await getSupabaseClient()
-          const { data, error: setError } = await supabase.auth.setSession({
-            access_token: accessToken,
-            refresh_token: refreshToken,
-          })
-          
-          if (setError) {
-            console.error('Error setting session from URL hash:', setError)
-            setError('Failed to set session. Please try logging in again.')
-            setIsLoading(false)
-            return
-          } else if (data?.session) {
-            console.log('Session set successfully from URL hash')
-            // Clean up URL hash
-            window.history.replaceState(null, '', window.location.pathname + window.location.search)
-          }
-        } catch (err) {
-          console.error('Error handling OAuth tokens:', err)
-          setError('Failed to process OAuth tokens. Please try logging in again.')
-          setIsLoading(false)
-          return
-        }
-      }
-      
-      // Give a small delay after OAuth redirect to ensure session is available
-      if (window.location.search.includes('code=') || accessToken) {
-        await new Promise(resolve => setTimeout(resolve, 500))
-      }
-      
-      const isAuth = await checkAuthentication()
-      console.log('Auth check result:', isAuth)
-      
-      if (!isAuth) {
-        console.log('Not authenticated, redirecting to home')
-        router.push('/')
-        return
-      }
-
-      const user = await getCurrentUserAsync()
-      console.log('Current user:', user)
-      
-      if (user) {
-        setCurrentUser(user)
-        // Use user ID for Supabase users, username for local users
-        const userKey = user.id || user.username
-        const userId = user.id
-        const loaded = await loadSubscriptions(userKey, userId)
-        setSubscriptions(loaded)
-      } else {
-        console.error('Failed to load user - user is null')
-        setError('Failed to load user data. Please try logging in again.')
-      }
-    } catch (err: any) {
-      console.error('Error loading dashboard data:', err)
-      setError(err.message || 'Failed to load dashboard')
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  const { currentUser, userKey, userId, subscriptions, workspace, canEdit, changeWorkspace, saveSubscription } = useDashboard()
+  const [budgets, setBudgets] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS)
+  const [priceChanges, setPriceChanges] = useState<PriceChange[]>([])
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
+  const [recordingEntry, setRecordingEntry] = useState<LedgerEntry | null>(null)
 
   useEffect(() => {
-    setMounted(true)
-  }, [])
+    const loadData = async () => {
+      setBudgets(await loadBudgetSettings(userId))
+    }
+    loadData()
+  }, [userId])
 
+  // Price changes, payments and payment methods belong to the workspace being viewed
+  const workspaceId = workspace?.id
   useEffect(() => {
-    // Only load data on client side after mount
-    if (mounted && typeof window !== 'undefined') {
-      loadData()
+    const loadWorkspaceData = async () => {
+      setPriceChanges(await loadRecentPriceChanges(userKey, userId))
+      setPayments(await loadPayments(...getMonthRange(), userKey, userId))
+      setPaymentMethods(await loadPaymentMethods(userKey, userId))
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [mounted])
+    loadWorkspaceData()
+  }, [userKey, userId, workspaceId])
 
   // Reload data when page comes into focus (e.g., returning from add page)
   useEffect(() => {
     const handleFocus = async () => {
-      if (currentUser) {
-        const userKey = currentUser.id || currentUser.username
-        const userId = currentUser.id
-        const loaded = await loadSubscriptions(userKey, userId)
-        setSubscriptions(loaded)
-      }
+      setPriceChanges(await loadRecentPriceChanges(userKey, userId))
+      setPayments(await loadPayments(...getMonthRange(), userKey, userId))
     }
     window.addEventListener('focus', handleFocus)
     return () => window.removeEventListener('focus', handleFocus)
-  }, [currentUser])
-
-  // Don't render until mounted (prevents hydration issues)
-  if (!mounted || isLoading) {
-    return (
-      <div className="min-h-screen bg-black flex items-center justify-center">
-        <div className="text-white text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pastel-blue mx-auto mb-4"></div>
-          <p className="text-gray-400">Loading...</p>
-        </div>
-      </div>
-    )
+  }, [userKey, userId])
+
+  // Record a renewal as paid or missed
+  const handleSavePayment = async (payment: Payment) => {
+    const result = await savePayment(payment, userKey, userId)
+    if (result.success) {
+      setPayments(prev => [...prev.filter(existing => existing.id !== payment.id), payment])
+      setRecordingEntry(null)
+    }
+    return result
   }
 
-  if (error) {
-    return (
-      <div className="min-h-screen bg-black flex items-center justify-center px-4">
-        <div className="text-center">
-          <p className="text-red-400 mb-4">{error}</p>
-          <button
-            onClick={() => {
-              setError(null)
-              setIsLoading(true)
-              loadData()
-            }}
-            className="px-4 py-2 bg-pastel-blue text-black rounded-lg font-semibold"
-          >
-            Retry
-          </button>
-        </div>
-      </div>
-    )
+  const handleClearPayment = async (payment: Payment) => {
+    const result = await deletePayment(payment, userKey, userId)
+    if (result.success) {
+      setPayments(prev => prev.filter(existing => existing.id !== payment.id))
+      setRecordingEntry(null)
+    }
+    return result
   }
 
-  if (!currentUser) {
-    // Still loading or no user - show loading state
-    return (
-      <div className="min-h-screen bg-black flex items-center justify-center">
-        <div className="text-white text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pastel-blue mx-auto mb-4"></div>
-          <p className="text-gray-400">Loading user data...</p>
-        </div>
-      </div>
-    )
+  // Cancel a trial (or a just-converted one), keeping it in the list as Cancelled
+  const handleCancelTrial = async (subscription: Subscription) => {
+    await saveSubscription(cancelSubscription(subscription))
   }
 
-  const totalMonthlyCost = calculateTotalMonthlyCost(subscriptions)
+  // Keep a converted trial: drop the trial details so it is no longer flagged
+  const handleKeepConvertedTrial = async (subscription: Subscription) => {
+    await saveSubscription({ ...subscription, trialStartDate: undefined, trialEndDate: undefined, postTrialCost: undefined })
+  }
+
+  const currencySettings = loadCurrencySettings()
+  // What the user pays themselves, and the full cost when some subscriptions are split
+  const totalMonthlyCost = calculateTotalMonthlyCost(subscriptions, currencySettings, true)
+  const fullMonthlyCost = calculateTotalMonthlyCost(subscriptions, currencySettings)
+  const settlement = calculateSettlement(subscriptions, currencySettings)
   const activeSubscriptions = subscriptions.filter(sub => sub.status === 'Active')
   const renewalsThisWeek = countRenewalsThisWeek(subscriptions)
+  const endingTrials = findEndingTrials(subscriptions)
+  const convertedTrials = findConvertedTrials(subscriptions)
+  // Budgets set in another workspace are not shown against this one's subscriptions
+  const budgetStatus = budgetsApplyTo(budgets, workspace?.id)
+    ? calculateBudgetStatus(subscriptions, budgets, currencySettings)
+    : { overall: null, categories: [] }
+  const budgetRows = [...(budgetStatus.overall ? [budgetStatus.overall] : []), ...budgetStatus.categories]
+  const priceHikes = findPriceHikes(subscriptions, priceChanges, currencySettings)
+  const monthLedger = buildLedger(subscriptions, payments, ...getMonthRange())
+  const monthSummary = summarizeLedger(monthLedger, currencySettings)
+  const dueLedger = monthLedger.filter(entry => entry.state !== 'upcoming')
+  const expiringCards = findExpiringPaymentMethods(subscriptions, paymentMethods)
+  const recordingMethod = recordingEntry ? findPaymentMethod(recordingEntry.subscription, paymentMethods) : undefined
 
   return (
     <div className="min-h-screen bg-black pb-20">
@@ -186,7 +115,15 @@ export default function HomeTab() {
               Welcome back, {currentUser.fullName || currentUser.username}
           </h1>
                   </div>
-          <p className="text-gray-400 text-sm">Here's your subscription overview</p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-gray-400 text-sm">Here's your subscription overview</p>
+            {currentUser.id && (
+              <SyncStatus userId={currentUser.id} />
+            )}
+          </div>
+          {currentUser.id && (
+            <WorkspaceSwitcher userId={currentUser.id} onChange={changeWorkspace} />
+          )}
                 </div>
 
         {/* Total Monthly Spend Card */}
@@ -196,9 +133,14 @@ export default function HomeTab() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <div className="text-black text-4xl font-bold">
-              {totalMonthlyCost.toFixed(2)}
+              {formatCurrency(totalMonthlyCost, currencySettings.homeCurrency)}
             </div>
           </div>
+          {Math.abs(fullMonthlyCost - totalMonthlyCost) > 0.005 && (
+            <div className="text-black/70 text-sm mt-1">
+              Your share of {formatCurrency(fullMonthlyCost, currencySettings.homeCurrency)} in full
+            </div>
+          )}
         </div>
 
         {/* Split Stats Card */}
@@ -229,15 +171,262 @@ export default function HomeTab() {
           </div>
         </div>
 
+        {/* Budgets Card */}
+        {budgetRows.length > 0 && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-gray-800">
+            <h2 className="text-white font-semibold mb-3">Monthly budgets</h2>
+            <div className="space-y-3">
+              {budgetRows.map((status) => (
+                <div key={status.category || 'overall'}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-gray-300">{status.category || 'All subscriptions'}</span>
+                    <span className={status.over ? 'text-red-400 font-semibold' : 'text-gray-400'}>
+                      {formatCurrency(status.spent, currencySettings.homeCurrency)} / {formatCurrency(status.budget, currencySettings.homeCurrency)}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${status.over ? 'bg-red-400' : status.spent / status.budget > 0.8 ? 'bg-yellow-400' : 'bg-pastel-blue'}`}
+                      style={{ width: `${Math.min(100, status.budget > 0 ? (status.spent / status.budget) * 100 : 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Expiring Cards Card */}
+        {expiringCards.length > 0 && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-yellow-800">
+            <div className="flex items-center gap-2 mb-3">
+              <svg className="w-5 h-5 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+              </svg>
+              <h2 className="text-white font-semibold">Cards expiring before renewal</h2>
+            </div>
+            <div className="space-y-2">
+              {expiringCards.map(({ subscription, method }) => (
+                <Link
+                  key={subscription.id}
+                  href={`/dashboard/subscription/${subscription.id}`}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <span className="min-w-0">
+                    <span className="block text-white truncate">{subscription.name}</span>
+                    <span className="block text-gray-400 text-xs">
+                      {formatPaymentMethod(method)} expires {formatExpiry(method)}
+                    </span>
+                  </span>
+                  <span className="text-yellow-400 whitespace-nowrap">Renews {formatDate(subscription.renewalDate)}</span>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Payments Card */}
+        {monthLedger.length > 0 && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-gray-800">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-white font-semibold">Payments this month</h2>
+              <span className="text-sm text-gray-400">
+                {formatCurrency(monthSummary.paid, currencySettings.homeCurrency)} / {formatCurrency(monthSummary.expected, currencySettings.homeCurrency)}
+              </span>
+            </div>
+            <p className="text-gray-400 text-xs mb-3">
+              Paid so far against {formatCurrency(monthSummary.expectedToDate, currencySettings.homeCurrency)} expected to date
+              {monthSummary.missedCount > 0 && <span className="text-red-400"> &middot; {monthSummary.missedCount} missed</span>}
+            </p>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden mb-3">
+              <div
+                className="h-full rounded-full bg-green-400"
+                style={{ width: `${Math.min(100, monthSummary.expected > 0 ? (monthSummary.paid / monthSummary.expected) * 100 : 0)}%` }}
+              />
+            </div>
+            {dueLedger.length > 0 && (
+              <div className="space-y-2">
+                {dueLedger.map((entry) => (
+                  <button
+                    key={`${entry.subscription.id}-${entry.dueDate.getTime()}`}
+                    type="button"
+                    onClick={() => setRecordingEntry(entry)}
+                    disabled={!canEdit}
+                    className="w-full flex items-center justify-between gap-3 text-left text-sm"
+                  >
+                    <span className="min-w-0 truncate">
+                      <span className="text-white">{entry.subscription.name}</span>
+                      <span className="text-gray-500"> &middot; {formatDate(entry.dueDate)}</span>
+                    </span>
+                    {entry.state === 'paid' ? (
+                      <span className="text-green-400 whitespace-nowrap">
+                        Paid {formatCurrency(entry.payment!.amount || 0, entry.payment!.currency)}
+                      </span>
+                    ) : entry.state === 'missed' ? (
+                      <span className="text-red-400 whitespace-nowrap">Missed</span>
+                    ) : (
+                      <span className="text-pastel-blue whitespace-nowrap">{canEdit ? 'Record' : 'Unrecorded'}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Price Increases Card */}
+        {priceHikes.length > 0 && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-red-900">
+            <div className="flex items-center gap-2 mb-3">
+              <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+              </svg>
+              <h2 className="text-white font-semibold">Price increases</h2>
+            </div>
+            <div className="space-y-3">
+              {priceHikes.map(({ subscription, change, percentChange, annualImpact }) => (
+                <Link
+                  key={change.id}
+                  href={`/dashboard/subscription/${subscription.id}`}
+                  className="flex items-center justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <div className="text-white font-medium truncate">{subscription.name}</div>
+                    <div className="text-gray-400 text-xs">
+                      {formatCurrency(change.previous.cost, change.previous.currency)} → {formatCurrency(change.current.cost, change.current.currency)} on {formatDate(change.changedAt)}
+                    </div>
+                  </div>
+                  <div className="text-right whitespace-nowrap">
+                    {percentChange > 0 && (
+                      <div className="text-red-400 text-sm font-semibold">+{percentChange.toFixed(1)}%</div>
+                    )}
+                    <div className="text-gray-400 text-xs">
+                      +{formatCurrency(annualImpact, currencySettings.homeCurrency)} a year
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Settlement Card */}
+        {settlement.people.length > 0 && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-gray-800">
+            <div className="flex items-center gap-2 mb-3">
+              <svg className="w-5 h-5 text-teal-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+              <h2 className="text-white font-semibold">Who owes what this month</h2>
+            </div>
+            {settlement.transfers.length > 0 ? (
+              <div className="space-y-2 mb-3">
+                {settlement.transfers.map((transfer) => (
+                  <div key={`${transfer.from}-${transfer.to}`} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-300">
+                      {transfer.from === ME ? 'You owe' : `${transfer.from} owes`} {transfer.to === ME ? 'you' : transfer.to}
+                    </span>
+                    <span className={transfer.to === ME ? 'text-green-400 font-medium' : 'text-white font-medium'}>
+                      {formatCurrency(transfer.amount, currencySettings.homeCurrency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-400 text-sm mb-3">Everyone is settled up.</p>
+            )}
+            <div className="pt-3 border-t border-gray-800 space-y-1">
+              {settlement.people.map((person) => (
+                <div key={person.name} className="flex items-center justify-between text-xs text-gray-400">
+                  <span>{person.name}</span>
+                  <span>
+                    share {formatCurrency(person.share, currencySettings.homeCurrency)} · paid {formatCurrency(person.paid, currencySettings.homeCurrency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Trials Card */}
+        {(endingTrials.length > 0 || convertedTrials.length > 0) && (
+          <div className="bg-gray-900 rounded-2xl p-4 mb-4 border border-yellow-800">
+            <div className="flex items-center gap-2 mb-3">
+              <svg className="w-5 h-5 text-yellow-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <h2 className="text-white font-semibold">Free trials</h2>
+            </div>
+            <div className="space-y-3">
+              {endingTrials.map((sub) => (
+                <div key={sub.id} className="flex items-center justify-between gap-3">
+                  <Link href={`/dashboard/subscription/${sub.id}`} className="flex-1 min-w-0">
+                    <div className="text-white text-sm font-medium truncate">{sub.name}</div>
+                    <div className="text-yellow-400 text-xs">
+                      {formatTrialEnding(getTrialDaysLeft(sub) || 0)}, then {formatCurrency(sub.postTrialCost !== undefined ? sub.postTrialCost : sub.cost, sub.currency)} {formatCycle(sub).toLowerCase()}
+                    </div>
+                  </Link>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleCancelTrial(sub)}
+                      className="px-3 py-1 border border-red-800 text-red-400 rounded-lg text-xs font-medium hover:bg-red-900/30 transition-colors touch-target"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              ))}
+              {convertedTrials.map((sub) => (
+                <div key={sub.id} className="flex items-center justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white text-sm font-medium truncate">{sub.name}</div>
+                    <div className="text-gray-400 text-xs">
+                      Trial ended {formatDate(sub.trialEndDate!)}, now {formatCurrency(sub.cost, sub.currency)} {formatCycle(sub).toLowerCase()}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => handleKeepConvertedTrial(sub)}
+                        className="px-3 py-1 border border-gray-700 text-gray-300 rounded-lg text-xs font-medium hover:bg-gray-800 transition-colors touch-target"
+                      >
+                        Keep
+                      </button>
+                      <button
+                        onClick={() => handleCancelTrial(sub)}
+                        className="px-3 py-1 border border-red-800 text-red-400 rounded-lg text-xs font-medium hover:bg-red-900/30 transition-colors touch-target"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {recordingEntry && (
+          <PaymentDialog
+            entry={recordingEntry}
+            defaultMethod={recordingMethod && formatPaymentMethod(recordingMethod)}
+            onSave={handleSavePayment}
+            onClear={handleClearPayment}
+            onClose={() => setRecordingEntry(null)}
+          />
+        )}
+
         {/* Plus Button */}
-        <Link
-          href="/dashboard/add"
-          className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
-        >
-          <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-        </Link>
+        {canEdit && (
+          <Link
+            href="/dashboard/add"
+            className="fixed bottom-24 right-1/2 translate-x-1/2 w-14 h-14 bg-pastel-blue rounded-full flex items-center justify-center shadow-lg hover:bg-pastel-blue-dark transition-colors touch-target z-40"
+          >
+            <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </Link>
+        )}
             </div>
             
       <TabNavigation />
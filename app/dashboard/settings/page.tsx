@@ -1,48 +1,70 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
-import { getCurrentUser, isAuthenticated, getCurrentUserAsync, checkAuthentication, CurrentUser } from '../../lib/auth'
+import Link from 'next/link'
 import { loadNotificationSettings, saveNotificationSettings, NotificationSettings, NotificationTimeframe } from '../../lib/notifications'
+import { generateSubscriptionId } from '../../lib/subscriptions'
+import { useDashboard } from '../../components/DashboardProvider'
+import { loadCategories, saveCategory, deleteCategory, validateCategoryName, CategoryDefinition, CATEGORY_COLORS, CATEGORY_ICON_KEYS, CATEGORY_COLOR_CLASSES } from '../../lib/categories'
+import { exportSubscriptionsToCSV, exportSubscriptionsToJSON, downloadFile } from '../../lib/import-export'
+import { loadCalendarFeedToken, regenerateCalendarFeedToken, revokeCalendarFeedToken, getCalendarFeedUrl } from '../../lib/calendar-feed'
+import { loadBudgetSettings, saveBudgetSettings, budgetsApplyTo, BudgetSettings } from '../../lib/budgets'
 import TabNavigation from '../../components/TabNavigation'
+import WorkspaceSettings from '../../components/WorkspaceSettings'
+import PaymentMethodSettings from '../../components/PaymentMethodSettings'
+import LocalAccountSettings from '../../components/LocalAccountSettings'
+import { CategoryIcon, CategoryIconGlyph } from '../../components/CategoryIcon'
+import { loadCurrencySettings, saveCurrencySettings, parseExchangeRatesFile, CurrencySettings, CURRENCIES } from '../../lib/currency'
 
 export default function SettingsTab() {
-  const router = useRouter()
-  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null)
+  const { currentUser, userKey, userId, subscriptions, workspace, canEdit, changeWorkspace, renameCategory } = useDashboard()
   const [settings, setSettings] = useState<NotificationSettings>({
     emailEnabled: false,
     timeframe: '3 days'
   })
+  // Not saved until loaded, so the defaults above never overwrite the user's settings
+  const [settingsLoaded, setSettingsLoaded] = useState(false)
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings | null>(null)
+  const [newRate, setNewRate] = useState({ currency: '', rate: '' })
+  const [rateMessage, setRateMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null)
+  const [feedToken, setFeedToken] = useState<string | null>(null)
+  const [feedCopied, setFeedCopied] = useState(false)
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+  // Category being added (no id yet) or edited
+  const [categoryDraft, setCategoryDraft] = useState<Omit<CategoryDefinition, 'id'> & { id?: string } | null>(null)
+  const [categoryError, setCategoryError] = useState<string | null>(null)
+  const [budgets, setBudgets] = useState<BudgetSettings | null>(null)
 
   useEffect(() => {
     const loadData = async () => {
-      if (typeof window === 'undefined') return
-      
-      const isAuth = await checkAuthentication()
-      if (!isAuth) {
-        router.push('/')
-        return
-      }
-
-      const user = await getCurrentUserAsync()
-      if (user) {
-        setCurrentUser(user)
-        // Load settings from database or localStorage
-        const userId = user.id
-        const loadedSettings = await loadNotificationSettings(userId)
-        setSettings(loadedSettings)
+      // Load settings from database or localStorage
+      setSettings(await loadNotificationSettings(userId))
+      setCurrencySettings(loadCurrencySettings())
+      if (userId) {
+        setFeedToken(await loadCalendarFeedToken(userId))
       }
+      setBudgets(await loadBudgetSettings(userId))
+      setSettingsLoaded(true)
     }
     loadData()
-  }, [router])
+  }, [userKey, userId])
+
+  useEffect(() => {
+    // Categories belong to the current workspace, so reload them when it changes
+    const loadWorkspaceCategories = async () => {
+      setCategories(await loadCategories(userKey, userId))
+      setCategoryDraft(null)
+      setCategoryError(null)
+    }
+    loadWorkspaceCategories()
+  }, [userKey, userId, workspace?.id])
 
   useEffect(() => {
     // Save settings to database or localStorage whenever they change
-    if (currentUser) {
-      const userId = currentUser.id
+    if (settingsLoaded) {
       saveNotificationSettings(settings, userId)
     }
-  }, [settings, currentUser])
+  }, [settings, settingsLoaded, userId])
 
   const handleToggleEmail = () => {
     setSettings(prev => ({ ...prev, emailEnabled: !prev.emailEnabled }))
@@ -52,8 +74,188 @@ export default function SettingsTab() {
     setSettings(prev => ({ ...prev, timeframe }))
   }
 
-  if (!currentUser) {
-    return null
+  const updateCurrencySettings = (updated: CurrencySettings) => {
+    setCurrencySettings(updated)
+    saveCurrencySettings(updated)
+    // Keep the copy of the rates used for budgets in reminder emails current
+    if (userId && budgets && budgets.workspaceId) {
+      const updatedBudgets = { ...budgets, exchangeRates: updated.exchangeRates }
+      setBudgets(updatedBudgets)
+      saveBudgetSettings(updatedBudgets, userId)
+    }
+  }
+
+  const handleHomeCurrencyChange = (homeCurrency: string) => {
+    if (!currencySettings) return
+    updateCurrencySettings({ ...currencySettings, homeCurrency })
+  }
+
+  const handleRateChange = (currency: string, value: string) => {
+    if (!currencySettings) return
+    const rate = parseFloat(value)
+    if (isNaN(rate) || rate <= 0) return
+    updateCurrencySettings({
+      ...currencySettings,
+      exchangeRates: {
+        ...currencySettings.exchangeRates,
+        rates: { ...currencySettings.exchangeRates.rates, [currency]: rate }
+      }
+    })
+  }
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currencySettings) return
+
+    const currency = newRate.currency.trim().toUpperCase()
+    const rate = parseFloat(newRate.rate)
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      setRateMessage({ type: 'error', text: 'Currency must be a 3-letter code, e.g. CHF' })
+      return
+    }
+    if (isNaN(rate) || rate <= 0) {
+      setRateMessage({ type: 'error', text: 'Rate must be a positive number' })
+      return
+    }
+
+    handleRateChange(currency, newRate.rate)
+    setNewRate({ currency: '', rate: '' })
+    setRateMessage(null)
+  }
+
+  const handleImportRates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !currencySettings) return
+
+    const content = await file.text()
+    const result = parseExchangeRatesFile(content, file.name, currencySettings.exchangeRates.base)
+    if (!result.exchangeRates) {
+      setRateMessage({ type: 'error', text: result.error || 'Could not import exchange rates' })
+      return
+    }
+
+    // Rates against the same base are merged, a different base replaces the table
+    const imported = result.exchangeRates
+    const exchangeRates = imported.base === currencySettings.exchangeRates.base
+      ? { base: imported.base, rates: { ...currencySettings.exchangeRates.rates, ...imported.rates } }
+      : imported
+    updateCurrencySettings({ ...currencySettings, exchangeRates })
+    setRateMessage({ type: 'success', text: `Imported ${Object.keys(imported.rates).length} exchange rates` })
+  }
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().split('T')[0]
+
+    if (format === 'csv') {
+      downloadFile(exportSubscriptionsToCSV(subscriptions), `subscriptions-${date}.csv`, 'text/csv')
+    } else {
+      downloadFile(exportSubscriptionsToJSON(subscriptions), `subscriptions-${date}.json`, 'application/json')
+    }
+  }
+
+  const handleRegenerateFeed = async () => {
+    if (!userId) return
+    const token = await regenerateCalendarFeedToken(userId)
+    if (token) {
+      setFeedToken(token)
+      setFeedCopied(false)
+    }
+  }
+
+  const handleRevokeFeed = async () => {
+    if (!userId) return
+    if (await revokeCalendarFeedToken(userId)) {
+      setFeedToken(null)
+    }
+  }
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedToken) return
+    await navigator.clipboard.writeText(getCalendarFeedUrl(feedToken))
+    setFeedCopied(true)
+  }
+
+  // Supabase users' budgets move to the workspace being viewed when changed here
+  const updateBudgets = (updated: BudgetSettings) => {
+    const withContext = userId && currencySettings
+      ? { ...updated, workspaceId: workspace?.id, exchangeRates: currencySettings.exchangeRates }
+      : updated
+    setBudgets(withContext)
+    saveBudgetSettings(withContext, userId)
+  }
+
+  // Set or clear (empty value) the overall budget, or a category's when one is given
+  const handleBudgetChange = (value: string, category?: string) => {
+    if (!budgets || !currencySettings) return
+    const amount = parseFloat(value)
+    const valid = !isNaN(amount) && amount > 0
+    const hasBudgets = budgets.monthlyBudget !== null || Object.keys(budgets.categoryBudgets).length > 0
+    // Budgets are kept in the home currency at the time the first one is set
+    const currency = hasBudgets ? budgets.currency : currencySettings.homeCurrency
+
+    if (category === undefined) {
+      updateBudgets({ ...budgets, currency, monthlyBudget: valid ? amount : null })
+      return
+    }
+
+    const categoryBudgets = { ...budgets.categoryBudgets }
+    if (valid) {
+      categoryBudgets[category] = amount
+    } else {
+      delete categoryBudgets[category]
+    }
+    updateBudgets({ ...budgets, currency, categoryBudgets })
+  }
+
+  const handleSaveCategory = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!categoryDraft) return
+
+    const error = validateCategoryName(categoryDraft.name, categories, categoryDraft.id)
+    if (error) {
+      setCategoryError(error)
+      return
+    }
+
+    const category: CategoryDefinition = {
+      ...categoryDraft,
+      id: categoryDraft.id || generateSubscriptionId(),
+      name: categoryDraft.name.trim()
+    }
+    const previous = categories.find(existing => existing.id === category.id)
+
+    setCategories(await saveCategory(category, categories, userKey, userId))
+    // Subscriptions and budgets refer to categories by name, so a rename moves them too
+    if (previous && previous.name !== category.name) {
+      await renameCategory(previous.name, category.name)
+      if (budgets && budgets.categoryBudgets[previous.name] !== undefined) {
+        const { [previous.name]: amount, ...categoryBudgets } = budgets.categoryBudgets
+        updateBudgets({ ...budgets, categoryBudgets: { ...categoryBudgets, [category.name]: amount } })
+      }
+    }
+    setCategoryDraft(null)
+    setCategoryError(null)
+  }
+
+  const handleDeleteCategory = async (category: CategoryDefinition) => {
+    const inUse = subscriptions.filter(sub => sub.category === category.name).length
+    if (inUse > 0) {
+      setCategoryError(`Move ${inUse} subscription${inUse === 1 ? '' : 's'} out of ${category.name} before deleting it`)
+      return
+    }
+    if (categories.length === 1) {
+      setCategoryError('Keep at least one category')
+      return
+    }
+
+    setCategories(await deleteCategory(category.id, categories, userKey, userId))
+    if (budgets && budgets.categoryBudgets[category.name] !== undefined) {
+      const { [category.name]: _removed, ...categoryBudgets } = budgets.categoryBudgets
+      updateBudgets({ ...budgets, categoryBudgets })
+    }
+    setCategoryDraft(null)
+    setCategoryError(null)
   }
 
   const timeframes: NotificationTimeframe[] = ['1 day', '3 days', '1 week', '2 weeks']
@@ -136,6 +338,371 @@ export default function SettingsTab() {
             </div>
           )}
         </div>
+
+        {/* Currency Card */}
+        {currencySettings && (
+          <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mt-6 mb-6">
+            <div className="flex items-start gap-3 mb-6">
+              <svg className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <div>
+                <div className="text-white font-semibold mb-1">Currency</div>
+                <div className="text-gray-400 text-sm">Totals are converted into your home currency</div>
+              </div>
+            </div>
+
+            <label htmlFor="homeCurrency" className="block text-white font-semibold mb-3">
+              Home currency
+            </label>
+            <select
+              id="homeCurrency"
+              value={currencySettings.homeCurrency}
+              onChange={(e) => handleHomeCurrencyChange(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent transition-colors mb-6"
+            >
+              {Array.from(new Set([...CURRENCIES, ...Object.keys(currencySettings.exchangeRates.rates)])).map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+
+            <div className="pt-6 border-t border-gray-800">
+              <div className="text-white font-semibold mb-1">Exchange rates</div>
+              <div className="text-gray-400 text-sm mb-4">Units per 1 {currencySettings.exchangeRates.base}</div>
+
+              <div className="space-y-2 mb-4">
+                {Object.entries(currencySettings.exchangeRates.rates)
+                  .filter(([currency]) => currency !== currencySettings.exchangeRates.base)
+                  .map(([currency, rate]) => (
+                    <div key={`${currency}-${rate}`} className="flex items-center gap-3">
+                      <span className="w-12 text-gray-300 text-sm font-medium">{currency}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        defaultValue={rate}
+                        onBlur={(e) => handleRateChange(currency, e.target.value)}
+                        className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+              </div>
+
+              <form onSubmit={handleAddRate} className="flex gap-2 mb-4">
+                <input
+                  type="text"
+                  value={newRate.currency}
+                  onChange={(e) => setNewRate(prev => ({ ...prev, currency: e.target.value }))}
+                  maxLength={3}
+                  placeholder="CHF"
+                  className="w-20 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 uppercase focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={newRate.rate}
+                  onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+                  placeholder="Rate"
+                  className="flex-1 min-w-0 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold touch-target"
+                >
+                  Add
+                </button>
+              </form>
+
+              <label className="block w-full text-center px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors cursor-pointer">
+                Import rates from JSON or CSV
+                <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImportRates} className="hidden" />
+              </label>
+
+              {rateMessage && (
+                <p className={`mt-3 text-sm ${rateMessage.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>
+                  {rateMessage.text}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Categories Card */}
+        <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+          <div className="flex items-start gap-3 mb-4">
+            <svg className="w-5 h-5 text-purple-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+            <div>
+              <div className="text-white font-semibold mb-1">Categories</div>
+              <div className="text-gray-400 text-sm">Name, colour and icon for grouping subscriptions</div>
+            </div>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center gap-3">
+                <CategoryIcon category={category.name} categories={categories} className="w-5 h-5" />
+                <span className="flex-1 text-gray-300 text-sm">{category.name}</span>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setCategoryDraft({ ...category })
+                        setCategoryError(null)
+                      }}
+                      className="text-gray-400 hover:text-white text-sm touch-target"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteCategory(category)}
+                      className="text-red-400 hover:text-red-300 text-sm touch-target"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canEdit && (categoryDraft ? (
+            <form onSubmit={handleSaveCategory} className="pt-4 border-t border-gray-800 space-y-4">
+              <input
+                type="text"
+                value={categoryDraft.name}
+                onChange={(e) => setCategoryDraft(prev => prev && { ...prev, name: e.target.value })}
+                maxLength={30}
+                placeholder="Category name"
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+              />
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={color}
+                    onClick={() => setCategoryDraft(prev => prev && { ...prev, color })}
+                    className={`w-7 h-7 rounded-full ${CATEGORY_COLOR_CLASSES[color].swatch} ${
+                      categoryDraft.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-gray-900' : ''
+                    }`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_ICON_KEYS.map((icon) => (
+                  <button
+                    key={icon}
+                    type="button"
+                    aria-label={icon}
+                    onClick={() => setCategoryDraft(prev => prev && { ...prev, icon })}
+                    className={`p-2 border rounded-lg ${CATEGORY_COLOR_CLASSES[categoryDraft.color].text} ${
+                      categoryDraft.icon === icon ? 'border-pastel-blue bg-pastel-blue/20' : 'border-gray-700'
+                    }`}
+                  >
+                    <CategoryIconGlyph icon={icon} className="w-5 h-5" />
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCategoryDraft(null)
+                    setCategoryError(null)
+                  }}
+                  className="flex-1 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold touch-target"
+                >
+                  {categoryDraft.id ? 'Save' : 'Add'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => {
+                setCategoryDraft({ name: '', color: 'blue', icon: 'tag' })
+                setCategoryError(null)
+              }}
+              className="w-full px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+            >
+              Add category
+            </button>
+          ))}
+
+          {categoryError && (
+            <p className="mt-3 text-sm text-red-400">{categoryError}</p>
+          )}
+        </div>
+
+        {/* Payment Methods Card */}
+        <PaymentMethodSettings
+          key={workspace?.id}
+          userKey={userKey}
+          userId={userId}
+          subscriptions={subscriptions}
+          readOnly={!canEdit}
+        />
+
+        {/* Budgets Card */}
+        {budgets && currencySettings && (
+          <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+            <div className="flex items-start gap-3 mb-4">
+              <svg className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+              <div>
+                <div className="text-white font-semibold mb-1">Monthly budgets</div>
+                <div className="text-gray-400 text-sm">
+                  In {budgets.monthlyBudget !== null || Object.keys(budgets.categoryBudgets).length > 0 ? budgets.currency : currencySettings.homeCurrency}. Leave empty for no budget.
+                </div>
+                {workspace && (
+                  <div className="text-gray-500 text-xs mt-1">
+                    {budgetsApplyTo(budgets, workspace.id)
+                      ? `For subscriptions in ${workspace.name}`
+                      : `Set for another workspace; changing them here moves them to ${workspace.name}`}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {[null, ...categories.map(category => category.name)].map((category) => (
+                <div key={`${category || 'overall'}-${category ? budgets.categoryBudgets[category] : budgets.monthlyBudget}`} className="flex items-center gap-3">
+                  <span className="flex-1 text-gray-300 text-sm">{category || 'All subscriptions'}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    defaultValue={(category ? budgets.categoryBudgets[category] : budgets.monthlyBudget) ?? ''}
+                    onBlur={(e) => handleBudgetChange(e.target.value, category || undefined)}
+                    placeholder="No budget"
+                    className="w-32 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {currentUser.id && settings.emailEnabled && (
+              <label className="flex items-center gap-2 mt-4 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={budgets.includeInReminders}
+                  onChange={(e) => updateBudgets({ ...budgets, includeInReminders: e.target.checked })}
+                />
+                Mention overspent budgets in reminder emails
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Password Card (local accounts only) */}
+        {!currentUser.id && (
+          <LocalAccountSettings />
+        )}
+
+        {/* Workspace Card (Supabase accounts only) */}
+        {currentUser.id && (
+          <WorkspaceSettings userId={currentUser.id} onChange={changeWorkspace} />
+        )}
+
+        {/* Calendar Subscription Card (Supabase accounts only, the feed is served from the database) */}
+        {currentUser.id && (
+          <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+            <div className="flex items-start gap-3 mb-4">
+              <svg className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <div>
+                <div className="text-white font-semibold mb-1">Calendar subscription</div>
+                <div className="text-gray-400 text-sm">Subscribe from Google Calendar or Outlook to see renewals there</div>
+              </div>
+            </div>
+
+            {feedToken ? (
+              <>
+                <div className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-xs break-all mb-3">
+                  {getCalendarFeedUrl(feedToken)}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    onClick={handleCopyFeedUrl}
+                    className="px-3 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold touch-target"
+                  >
+                    {feedCopied ? 'Copied' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={handleRegenerateFeed}
+                    className="px-3 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+                  >
+                    New link
+                  </button>
+                  <button
+                    onClick={handleRevokeFeed}
+                    className="px-3 py-2 border border-red-800 text-red-400 rounded-lg text-sm font-medium hover:bg-red-900/30 transition-colors touch-target"
+                  >
+                    Disable
+                  </button>
+                </div>
+                <p className="text-gray-500 text-xs mt-3">Anyone with this link can see your renewals. Create a new link to revoke the old one.</p>
+              </>
+            ) : (
+              <button
+                onClick={handleRegenerateFeed}
+                className="w-full px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold hover:bg-pastel-blue-dark transition-colors touch-target"
+              >
+                Create subscribe link
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Data Card */}
+        <div className="bg-gray-900 rounded-2xl p-6 border border-gray-800 mb-6">
+          <div className="flex items-start gap-3 mb-6">
+            <svg className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+            <div>
+              <div className="text-white font-semibold mb-1">Your data</div>
+              <div className="text-gray-400 text-sm">Export or import your subscriptions, or find them in a bank statement</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <button
+              onClick={() => handleExport('csv')}
+              className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+            >
+              Export JSON
+            </button>
+          </div>
+          <Link
+            href="/dashboard/import"
+            className="block w-full text-center px-4 py-2 bg-pastel-blue text-black rounded-lg text-sm font-semibold hover:bg-pastel-blue-dark transition-colors touch-target"
+          >
+            Import from file
+          </Link>
+          <Link
+            href="/dashboard/import/statement"
+            className="block w-full text-center mt-3 px-4 py-2 border border-gray-700 text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors touch-target"
+          >
+            Find subscriptions in a bank statement
+          </Link>
+        </div>
       </div>
 
       <TabNavigation />
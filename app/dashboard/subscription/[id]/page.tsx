@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import {
+  cancelSubscription,
+  isRenewing,
+  rememberDeletedSubscription,
+  subscriptionToFormData,
+  formDataToSubscription,
+  toDateInputValue,
+  formatDate,
+  formatCycle,
+  Subscription,
+  SubscriptionFormData
+} from '../../../lib/subscriptions'
+import { useDashboard } from '../../../components/DashboardProvider'
+import SubscriptionForm from '../../../components/SubscriptionForm'
+import { getOccurrences, getToday, addMonthsClamped } from '../../../lib/recurrence'
+import { loadCategories, CategoryDefinition } from '../../../lib/categories'
+import { loadPaymentMethods, PaymentMethod } from '../../../lib/payment-methods'
+import { loadPriceHistory, getPercentChange, PriceChange, PricePoint } from '../../../lib/price-history'
+import { formatCurrency } from '../../../lib/currency'
+
+const formatPrice = (price: PricePoint): string => `${formatCurrency(price.cost, price.currency)} ${formatCycle(price).toLowerCase()}`
+
+export default function SubscriptionDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { userKey, userId, subscriptions, canEdit, saveSubscription, deleteSubscription } = useDashboard()
+  const [categories, setCategories] = useState<CategoryDefinition[]>([])
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
+  const [priceHistory, setPriceHistory] = useState<PriceChange[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    const loadData = async () => {
+      setCategories(await loadCategories(userKey, userId))
+      setPaymentMethods(await loadPaymentMethods(userKey, userId))
+      setPriceHistory(await loadPriceHistory(params.id, userKey, userId))
+      setIsLoading(false)
+    }
+    loadData()
+  }, [userKey, userId, params.id])
+
+  const subscription = subscriptions.find(sub => sub.id === params.id)
+
+  const handleSubmit = async (formData: SubscriptionFormData) => {
+    if (!subscription) return
+
+    await saveSubscription(formDataToSubscription(formData, subscription.id))
+
+    router.push('/dashboard/list')
+  }
+
+  const handleCancelSubscription = async () => {
+    if (!subscription) return
+
+    await saveSubscription(cancelSubscription(subscription))
+  }
+
+  const handleDelete = async () => {
+    if (!subscription) return
+
+    setIsDeleting(true)
+    // The list page picks this up and offers to undo the delete
+    rememberDeletedSubscription(subscription)
+    await deleteSubscription(subscription.id)
+    router.push('/dashboard/list')
+  }
+
+  const handleCancel = () => {
+    router.back()
+  }
+
+  // Stay blank while the deleted subscription's page is left, rather than showing it as not found
+  if (isLoading || (!subscription && isDeleting)) {
+    return null
+  }
+
+  if (!subscription) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-4">
+        <div className="text-center">
+          <p className="text-gray-400 mb-4">Subscription not found</p>
+          <Link
+            href="/dashboard/list"
+            className="px-4 py-2 bg-pastel-blue text-black rounded-lg font-semibold"
+          >
+            Back to list
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  // Workspace viewers can look but not change anything
+
+  return (
+    <div className="min-h-screen bg-black">
+      <div className="max-w-md mx-auto px-4 pt-8 pb-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-white">{canEdit ? 'Edit Subscription' : subscription.name}</h1>
+          <button
+            onClick={handleCancel}
+            className="text-gray-400 hover:text-white transition-colors touch-target"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form (keyed on status so quick actions below reset it) */}
+        <SubscriptionForm
+          key={subscription.status}
+          initialData={subscriptionToFormData(subscription)}
+          previousRenewalDate={toDateInputValue(subscription.renewalDate)}
+          categories={categories}
+          paymentMethods={paymentMethods}
+          readOnly={!canEdit}
+          submitLabel="Save Changes"
+          onSubmit={handleSubmit}
+          onCancel={handleCancel}
+        />
+
+        {/* Upcoming Renewals */}
+        <div className="mt-8 pt-6 border-t border-gray-800">
+          <h2 className="text-white font-semibold mb-3">Upcoming renewals</h2>
+          {isRenewing(subscription) ? (
+            <div className="flex flex-wrap gap-2">
+              {getOccurrences(subscription, getToday(), addMonthsClamped(getToday(), 12)).slice(0, 6).map((date) => (
+                <span
+                  key={date.getTime()}
+                  className="px-3 py-1 bg-gray-900 border border-gray-800 rounded-lg text-sm text-pastel-blue"
+                >
+                  {formatDate(date)}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">
+              {subscription.status === 'Paused'
+                ? 'Paused subscriptions do not renew until they are set back to Active.'
+                : subscription.activeUntil
+                  ? `No further renewals. Service ${subscription.status === 'Expired' ? 'ended' : 'ends'} ${formatDate(subscription.activeUntil)}.`
+                  : 'No further renewals.'}
+            </p>
+          )}
+        </div>
+
+        {/* Price History */}
+        <div className="mt-8 pt-6 border-t border-gray-800">
+          <h2 className="text-white font-semibold mb-3">Price history</h2>
+          {priceHistory.length > 0 ? (
+            <ol className="space-y-3">
+              {priceHistory.slice().reverse().map((change) => {
+                const percent = getPercentChange(change)
+                return (
+                  <li key={change.id} className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-white text-sm">{formatPrice(change.current)}</div>
+                      <div className="text-gray-500 text-xs">
+                        {formatDate(change.changedAt)} &middot; was {formatPrice(change.previous)}
+                      </div>
+                    </div>
+                    {percent !== null && Math.abs(percent) >= 0.05 && (
+                      <span className={`text-xs font-semibold whitespace-nowrap ${percent > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {percent > 0 ? '+' : ''}{percent.toFixed(1)}%
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+          ) : (
+            <p className="text-gray-500 text-sm">No price changes recorded yet.</p>
+          )}
+        </div>
+
+        {/* Cancel / Delete */}
+        {canEdit && (
+          <div className="mt-8 pt-6 border-t border-gray-800 space-y-3">
+            {isRenewing(subscription) && (
+              <button
+                type="button"
+                onClick={handleCancelSubscription}
+                className="w-full px-4 py-3 border border-gray-800 text-gray-300 rounded-lg hover:bg-gray-900 font-medium transition-colors touch-target"
+              >
+                Cancel Subscription
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowDeleteConfirm(true)}
+              className="w-full px-4 py-3 border border-red-800 text-red-400 rounded-lg hover:bg-red-900/30 font-medium transition-colors touch-target"
+            >
+              Delete Subscription
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Delete Confirmation */}
+      {showDeleteConfirm && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center px-4 z-50">
+          <div className="w-full max-w-sm bg-gray-900 rounded-2xl p-6 border border-gray-800">
+            <h2 className="text-white font-bold text-lg mb-2">Delete {subscription.name}?</h2>
+            <p className="text-gray-400 text-sm mb-6">
+              This removes the subscription from your list. You can undo this right after, or cancel it instead to keep its history.
+            </p>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(false)}
+                disabled={isDeleting}
+                className="flex-1 px-4 py-3 border border-gray-800 text-gray-300 rounded-lg hover:bg-gray-800 font-medium transition-colors touch-target"
+              >
+                Keep
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="flex-1 px-4 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
+              >
+                {isDeleting ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
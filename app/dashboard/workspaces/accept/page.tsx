@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useDashboard } from '../../../components/DashboardProvider'
+import { acceptInvitation } from '../../../lib/workspaces'
+
+// Landing page for workspace invitation links (/dashboard/workspaces/accept?token=...)
+export default function AcceptInvitationPage() {
+  const router = useRouter()
+  const { userId, changeWorkspace } = useDashboard()
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const accept = async () => {
+      if (typeof window === 'undefined') return
+
+      const token = new URLSearchParams(window.location.search).get('token')
+      if (!token) {
+        setError('This invitation link is incomplete.')
+        return
+      }
+
+      if (!userId) {
+        setError('Sign in with Google or your email using the address the invitation was sent to, then open the link again.')
+        return
+      }
+
+      const result = await acceptInvitation(token, userId)
+      if (!result.success || !result.workspace) {
+        setError(result.error || 'Could not accept the invitation.')
+        return
+      }
+
+      await changeWorkspace(result.workspace)
+      router.replace('/dashboard')
+    }
+    accept()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router, userId])
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      {error ? (
+        <div className="text-center max-w-sm">
+          <p className="text-red-400 mb-4">{error}</p>
+          <Link
+            href="/dashboard"
+            className="px-4 py-2 bg-pastel-blue text-black rounded-lg font-semibold"
+          >
+            Go to dashboard
+          </Link>
+        </div>
+      ) : (
+        <div className="text-white text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pastel-blue mx-auto mb-4"></div>
+          <p className="text-gray-400">Joining workspace...</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,25 @@
 // Authentication Utilities
 
+import type { User as SupabaseUser } from '@supabase/supabase-js'
+import { setLocalSessionCookie } from './session'
+
+// Local accounts (temporary login, for demos and offline testing) are kept in localStorage.
+// Passwords and recovery codes are stored as salted PBKDF2 hashes; accounts created before
+// hashing have a plaintext password, replaced with a hash the next time they sign in.
 export interface User {
   username: string
-  password: string // In production, this should be hashed
   fullName?: string
+  passwordHash?: PasswordHash
+  // Resets a forgotten password; there is no email for local accounts
+  recoveryHash?: PasswordHash
+  // Plaintext password from before hashing
+  password?: string
+}
+
+export interface PasswordHash {
+  hash: string
+  salt: string
+  iterations: number
 }
 
 export interface CurrentUser {
@@ -13,43 +29,141 @@ export interface CurrentUser {
   id?: string
 }
 
+// A signed-in local user, ended after SESSION_MAX_AGE_MS or IDLE_TIMEOUT_MS without activity
+interface LocalSession {
+  username: string
+  fullName?: string
+  signedInAt: number
+  lastActiveAt: number
+}
+
 const USERS_KEY = 'users'
 const CURRENT_USER_KEY = 'currentUser'
 
-export const registerUser = (username: string, password: string, fullName?: string): { success: boolean; error?: string } => {
+export const MIN_PASSWORD_LENGTH = 4
+export const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+export const IDLE_TIMEOUT_MS = 60 * 60 * 1000
+// Activity extends the session at most this often, and expiry is checked this often
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart']
+
+const PBKDF2_ITERATIONS = 310000
+const SALT_BYTES = 16
+// Recovery codes avoid characters that are easily misread (0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const fromHex = (hex: string) => {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)))
+}
+
+const derivePasswordHash = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(salt), iterations }, key, 256)
+  return toHex(new Uint8Array(bits))
+}
+
+const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+  return { hash: await derivePasswordHash(password, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS }
+}
+
+// Compares every character, so the time taken does not reveal how much of the hash matched
+const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await derivePasswordHash(password, stored.salt, stored.iterations)
+  if (hash.length !== stored.hash.length) return false
+
+  let difference = 0
+  for (let i = 0; i < hash.length; i++) {
+    difference |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// Check a password against a local account, hashed or (from before hashing) plaintext
+const checkUserPassword = async (user: User, password: string): Promise<boolean> => {
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash)
+  return user.password !== undefined && user.password === password
+}
+
+// Recovery codes are shown grouped (ABCD-EFGH-JKMN-PQRS) but compared without the dashes
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+const generateRecoveryCode = (): string => {
+  const values = crypto.getRandomValues(new Uint8Array(16))
+  const characters = Array.from(values).map(value => RECOVERY_CODE_ALPHABET[value % RECOVERY_CODE_ALPHABET.length])
+  return [0, 4, 8, 12].map(start => characters.slice(start, start + 4).join('')).join('-')
+}
+
+const validateNewPassword = (password: string, confirmPassword?: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  if (confirmPassword !== undefined && password !== confirmPassword) {
+    return 'Passwords do not match'
+  }
+  return null
+}
+
+const findUser = (users: User[], username: string): User | undefined => {
+  return users.find(u => u.username.toLowerCase() === username.trim().toLowerCase())
+}
+
+// Create a local account. Returns the recovery code, which must be shown to the user once:
+// only its hash is kept.
+export const registerUser = async (username: string, password: string, fullName?: string, confirmPassword?: string): Promise<{ success: boolean; error?: string; recoveryCode?: string }> => {
   if (typeof window === 'undefined') return { success: false, error: 'Not available' }
   
   if (!username.trim()) {
     return { success: false, error: 'Username is required' }
   }
   
-  if (password.length < 4) {
-    return { success: false, error: 'Password must be at least 4 characters' }
+  const passwordError = validateNewPassword(password, confirmPassword)
+  if (passwordError) {
+    return { success: false, error: passwordError }
   }
   
   const users = getUsers()
   
-  if (users.find(u => u.username.toLowerCase() === username.toLowerCase())) {
+  if (findUser(users, username)) {
     return { success: false, error: 'Username already exists' }
   }
   
-  users.push({ username, password, fullName })
-  localStorage.setItem(USERS_KEY, JSON.stringify(users))
+  const recoveryCode = generateRecoveryCode()
+  users.push({
+    username: username.trim(),
+    fullName,
+    passwordHash: await hashPassword(password),
+    recoveryHash: await hashPassword(normalizeRecoveryCode(recoveryCode))
+  })
+  saveUsers(users)
   
-  return { success: true }
+  return { success: true, recoveryCode }
 }
 
-export const loginUser = (username: string, password: string): { success: boolean; error?: string } => {
+export const loginUser = async (username: string, password: string): Promise<{ success: boolean; error?: string }> => {
   if (typeof window === 'undefined') return { success: false, error: 'Not available' }
   
   const users = getUsers()
-  const user = users.find(u => u.username.toLowerCase() === username.toLowerCase() && u.password === password)
+  const user = findUser(users, username)
   
-  if (!user) {
+  if (!user || !(await checkUserPassword(user, password))) {
     return { success: false, error: 'Invalid username or password' }
   }
   
-  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify({ username: user.username, fullName: user.fullName }))
+  // Replace a plaintext password from before hashing
+  if (!user.passwordHash) {
+    user.passwordHash = await hashPassword(password)
+    delete user.password
+    saveUsers(users)
+  }
+  
+  startLocalSession(user)
   
   // Migrate old subscriptions if they exist
   migrateOldSubscriptions(user.username)
@@ -57,8 +171,136 @@ export const loginUser = (username: string, password: string): { success: boolea
   return { success: true }
 }
 
-// Google OAuth sign-in with Supabase
-export const signInWithGoogle = async (): Promise<{ success: boolean; error?: string; user?: CurrentUser }> => {
+// Change the signed-in local user's password
+export const changePassword = async (currentPassword: string, newPassword: string, confirmPassword: string): Promise<{ success: boolean; error?: string }> => {
+  const current = getCurrentUser()
+  if (!current || current.id) return { success: false, error: 'Sign in with a local account first' }
+
+  const users = getUsers()
+  const user = findUser(users, current.username)
+  if (!user || !(await checkUserPassword(user, currentPassword))) {
+    return { success: false, error: 'Current password is incorrect' }
+  }
+
+  const passwordError = validateNewPassword(newPassword, confirmPassword)
+  if (passwordError) {
+    return { success: false, error: passwordError }
+  }
+
+  user.passwordHash = await hashPassword(newPassword)
+  delete user.password
+  saveUsers(users)
+  return { success: true }
+}
+
+// Replace the signed-in local user's recovery code, e.g. for accounts created before
+// recovery codes existed. Returns the new code to show once.
+export const regenerateRecoveryCode = async (currentPassword: string): Promise<{ success: boolean; error?: string; recoveryCode?: string }> => {
+  const current = getCurrentUser()
+  if (!current || current.id) return { success: false, error: 'Sign in with a local account first' }
+
+  const users = getUsers()
+  const user = findUser(users, current.username)
+  if (!user || !(await checkUserPassword(user, currentPassword))) {
+    return { success: false, error: 'Current password is incorrect' }
+  }
+
+  const recoveryCode = generateRecoveryCode()
+  user.recoveryHash = await hashPassword(normalizeRecoveryCode(recoveryCode))
+  saveUsers(users)
+  return { success: true, recoveryCode }
+}
+
+// Whether the signed-in local user has a recovery code to reset a forgotten password with
+export const hasRecoveryCode = (): boolean => {
+  const current = getCurrentUser()
+  if (!current) return false
+  return Boolean(findUser(getUsers(), current.username)?.recoveryHash)
+}
+
+// Set a new password for a forgotten one with the account's recovery code. The code is
+// used up: a new one is returned to show to the user.
+export const resetPassword = async (username: string, recoveryCode: string, newPassword: string, confirmPassword: string): Promise<{ success: boolean; error?: string; recoveryCode?: string }> => {
+  if (typeof window === 'undefined') return { success: false, error: 'Not available' }
+
+  const users = getUsers()
+  const user = findUser(users, username)
+  if (!user || !user.recoveryHash || !(await verifyPassword(normalizeRecoveryCode(recoveryCode), user.recoveryHash))) {
+    return { success: false, error: 'Invalid username or recovery code' }
+  }
+
+  const passwordError = validateNewPassword(newPassword, confirmPassword)
+  if (passwordError) {
+    return { success: false, error: passwordError }
+  }
+
+  const nextRecoveryCode = generateRecoveryCode()
+  user.passwordHash = await hashPassword(newPassword)
+  user.recoveryHash = await hashPassword(normalizeRecoveryCode(nextRecoveryCode))
+  delete user.password
+  saveUsers(users)
+  return { success: true, recoveryCode: nextRecoveryCode }
+}
+
+const startLocalSession = (user: User): void => {
+  const now = Date.now()
+  const session: LocalSession = { username: user.username, fullName: user.fullName, signedInAt: now, lastActiveAt: now }
+  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(session))
+  setLocalSessionCookie(true)
+}
+
+const endLocalSession = (): void => {
+  localStorage.removeItem(CURRENT_USER_KEY)
+  setLocalSessionCookie(false)
+}
+
+// Sessions from before expiry was added have no timestamps, and are ended
+const isSessionExpired = (session: LocalSession, now: number = Date.now()): boolean => {
+  if (typeof session.signedInAt !== 'number' || typeof session.lastActiveAt !== 'number') return true
+  return now - session.signedInAt > SESSION_MAX_AGE_MS || now - session.lastActiveAt > IDLE_TIMEOUT_MS
+}
+
+// Record activity for the idle timeout, unless the session has already expired
+export const touchLocalSession = (): void => {
+  if (typeof window === 'undefined' || !getCurrentUser()) return
+
+  const stored = localStorage.getItem(CURRENT_USER_KEY)
+  if (!stored) return
+  const session: LocalSession = JSON.parse(stored)
+  localStorage.setItem(CURRENT_USER_KEY, JSON.stringify({ ...session, lastActiveAt: Date.now() }))
+}
+
+// Keep the local session alive while the user is active, and call onExpired once it ends
+// (timed out, or signed out in another tab). Returns a function that stops watching.
+export const watchLocalSession = (onExpired: () => void): (() => void) => {
+  if (typeof window === 'undefined') return () => {}
+
+  let lastTouchedAt = 0
+  const handleActivity = () => {
+    const now = Date.now()
+    if (now - lastTouchedAt < SESSION_CHECK_INTERVAL_MS) return
+    lastTouchedAt = now
+    touchLocalSession()
+  }
+  const checkSession = () => {
+    if (!getCurrentUser()) {
+      onExpired()
+    }
+  }
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+  window.addEventListener('storage', checkSession)
+  const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS)
+
+  return () => {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+    window.removeEventListener('storage', checkSession)
+    clearInterval(interval)
+  }
+}
+
+// Google OAuth sign-in with Supabase; next is where /auth/callback sends the user afterwards
+export const signInWithGoogle = async (next?: string): Promise<{ success: boolean; error?: string; user?: CurrentUser }> => {
   try {
     // Only run on client-side
     if (typeof window === 'undefined') {
@@ -75,7 +317,7 @@ export const signInWithGoogle = async (): Promise<{ success: boolean; error?: st
     const { data, error } = await supabase.auth.signInWithOAuth({
       provider: 'google',
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`,
+        redirectTo: getCallbackUrl(next),
         queryParams: {
           access_type: 'offline',
           prompt: 'consent',
@@ -95,6 +337,191 @@ export const signInWithGoogle = async (): Promise<{ success: boolean; error?: st
   }
 }
 
+// Where Supabase sends the user back to from Google and from the links in its emails.
+// /auth/callback exchanges the code for a session, then redirects to next.
+const getCallbackUrl = (next?: string): string => {
+  return `${window.location.origin}/auth/callback${next ? `?next=${encodeURIComponent(next)}` : ''}`
+}
+
+// Create a Supabase account with an email address and password. Unless email confirmation is
+// turned off for the project, there is no session until the link in the confirmation email
+// is opened (needsVerification).
+export const signUpWithEmail = async (email: string, password: string, fullName?: string, next?: string): Promise<{ success: boolean; error?: string; needsVerification?: boolean }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: {
+        emailRedirectTo: getCallbackUrl(next),
+        data: fullName ? { full_name: fullName } : undefined,
+      },
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, needsVerification: !data.session }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to sign up' }
+  }
+}
+
+export const signInWithEmail = async (email: string, password: string): Promise<{ success: boolean; error?: string; needsVerification?: boolean }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+
+    if (error) {
+      // Supabase refuses the password until the address is confirmed
+      if (error.code === 'email_not_confirmed') {
+        return { success: false, error: 'Confirm your email address first', needsVerification: true }
+      }
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to sign in' }
+  }
+}
+
+// Email a one-time sign-in link (creating the account if there is none)
+export const sendMagicLink = async (email: string, next?: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: {
+        emailRedirectTo: getCallbackUrl(next),
+      },
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to send the sign-in link' }
+  }
+}
+
+// Send the confirmation email for a new account again
+export const resendVerificationEmail = async (email: string, next?: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email: email.trim(),
+      options: {
+        emailRedirectTo: getCallbackUrl(next),
+      },
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to resend the email' }
+  }
+}
+
+// Email a link that signs the user in on the reset password page, to choose a new one
+export const sendPasswordResetEmail = async (email: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: getCallbackUrl('/auth/reset-password'),
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to send the reset email' }
+  }
+}
+
+// Set a new password for the signed-in Supabase user (after following a reset link)
+export const updateSupabasePassword = async (password: string, confirmPassword: string): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (typeof window === 'undefined') {
+      return { success: false, error: 'Not available on server' }
+    }
+
+    if (password !== confirmPassword) {
+      return { success: false, error: 'Passwords do not match' }
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      return { success: false, error: 'Supabase not available' }
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase.auth.updateUser({ password })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to change the password' }
+  }
+}
+
 // Get current Supabase user
 export const getSupabaseUser = async (): Promise<CurrentUser | null> => {
   try {
@@ -164,26 +591,30 @@ export const getSupabaseUser = async (): Promise<CurrentUser | null> => {
     }
 
     console.log('Supabase user found:', user.email)
-
-    // Get user metadata (full name from Google profile)
-    const fullName = user.user_metadata?.full_name || 
-                     user.user_metadata?.name || 
-                     `${user.user_metadata?.first_name || ''} ${user.user_metadata?.last_name || ''}`.trim() ||
-                     user.email?.split('@')[0] || 
-                     'User'
-
-    return {
-      id: user.id,
-      username: user.email?.split('@')[0] || user.id,
-      email: user.email,
-      fullName: fullName || undefined,
-    }
+    return fromSupabaseUser(user)
   } catch (err) {
     console.error('Error in getSupabaseUser:', err)
     return null
   }
 }
 
+// The app's view of a Supabase user, on the client or the server
+export const fromSupabaseUser = (user: SupabaseUser): CurrentUser => {
+  // Get user metadata (full name from Google profile)
+  const fullName = user.user_metadata?.full_name || 
+                   user.user_metadata?.name || 
+                   `${user.user_metadata?.first_name || ''} ${user.user_metadata?.last_name || ''}`.trim() ||
+                   user.email?.split('@')[0] || 
+                   'User'
+
+  return {
+    id: user.id,
+    username: user.email?.split('@')[0] || user.id,
+    email: user.email,
+    fullName: fullName || undefined,
+  }
+}
+
 // Check if user is authenticated with Supabase
 export const isSupabaseAuthenticated = async (): Promise<boolean> => {
   const user = await getSupabaseUser()
@@ -205,9 +636,10 @@ export const logoutUser = async (): Promise<void> => {
   }
   
   // Clear local storage
-  localStorage.removeItem(CURRENT_USER_KEY)
+  endLocalSession()
 }
 
+// The signed-in local user, or null. An expired session is ended here.
 export const getCurrentUser = (): CurrentUser | null => {
   if (typeof window === 'undefined') return null
   
@@ -215,7 +647,12 @@ export const getCurrentUser = (): CurrentUser | null => {
   if (!stored) return null
   
   try {
-    return JSON.parse(stored)
+    const session: LocalSession = JSON.parse(stored)
+    if (isSessionExpired(session)) {
+      endLocalSession()
+      return null
+    }
+    return { username: session.username, fullName: session.fullName }
   } catch {
     return null
   }
@@ -263,6 +700,10 @@ const getUsers = (): User[] => {
   }
 }
 
+const saveUsers = (users: User[]): void => {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users))
+}
+
 const migrateOldSubscriptions = (username: string): void => {
   const oldKey = 'subscriptions'
   const newKey = `subscriptions_${username}`
@@ -0,0 +1,201 @@
+// Budget Utilities
+//
+// Monthly budgets, overall and per category, compared against the normalised
+// monthly cost of active subscriptions (the user's own share of split ones).
+// Budgets are stored on the user's notification_settings row (localStorage for
+// local users) in the currency that was the home currency when they were set.
+// Supabase users' budgets apply to the workspace they were set in, and keep a copy
+// of the user's exchange rates so reminder emails check them as the dashboard does.
+
+import { Subscription, Category, calculateTotalMonthlyCost, calculateSpendByCategory, getMonthlyCost } from './subscriptions'
+import { CurrencySettings, ExchangeRates, DEFAULT_CURRENCY, convertAmount } from './currency'
+
+export interface BudgetSettings {
+  currency: string
+  // Overall monthly budget, or null for none
+  monthlyBudget: number | null
+  categoryBudgets: Record<Category, number>
+  // Add budget breaches to renewal reminder emails
+  includeInReminders: boolean
+  // Workspace whose subscriptions count against the budgets (Supabase users only)
+  workspaceId?: string
+  // The user's exchange rates when last saved, for checking budgets on the server
+  exchangeRates?: ExchangeRates
+}
+
+export interface BudgetStatus {
+  // null for the overall budget
+  category: Category | null
+  budget: number
+  spent: number
+  over: boolean
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  currency: DEFAULT_CURRENCY,
+  monthlyBudget: null,
+  categoryBudgets: {},
+  includeInReminders: false
+}
+
+const toBudgetStatus = (category: Category | null, budget: number, spent: number): BudgetStatus => ({
+  category,
+  budget,
+  spent,
+  over: spent > budget
+})
+
+// Budget amount converted into the home currency used for spend totals
+const convertBudget = (amount: number, budgets: BudgetSettings, currencySettings: CurrencySettings): number => {
+  return convertAmount(amount, budgets.currency, currencySettings.homeCurrency, currencySettings.exchangeRates)
+}
+
+// Whether budgets count the subscriptions of the workspace being viewed
+export const budgetsApplyTo = (budgets: BudgetSettings, workspaceId?: string): boolean => {
+  return !budgets.workspaceId || budgets.workspaceId === workspaceId
+}
+
+// Current monthly spend against each budget that has been set, in the home currency
+export const calculateBudgetStatus = (subscriptions: Subscription[], budgets: BudgetSettings, currencySettings: CurrencySettings): { overall: BudgetStatus | null; categories: BudgetStatus[] } => {
+  const overall = budgets.monthlyBudget !== null
+    ? toBudgetStatus(null, convertBudget(budgets.monthlyBudget, budgets, currencySettings), calculateTotalMonthlyCost(subscriptions, currencySettings, true))
+    : null
+
+  const spendByCategory = calculateSpendByCategory(subscriptions, currencySettings, true)
+  const categories = Object.entries(budgets.categoryBudgets).map(([category, budget]) => {
+    const spent = spendByCategory.find(spend => spend.category === category)?.monthlyCost || 0
+    return toBudgetStatus(category, convertBudget(budget, budgets, currencySettings), spent)
+  })
+
+  return { overall, categories }
+}
+
+// Budgets that are currently overspent
+export const findBudgetBreaches = (subscriptions: Subscription[], budgets: BudgetSettings, currencySettings: CurrencySettings): BudgetStatus[] => {
+  const { overall, categories } = calculateBudgetStatus(subscriptions, budgets, currencySettings)
+  return [...(overall ? [overall] : []), ...categories].filter(status => status.over)
+}
+
+// Budgets that adding (or updating) a subscription would push over, for warning before saving
+export const findBudgetImpact = (subscription: Subscription, subscriptions: Subscription[], budgets: BudgetSettings, currencySettings: CurrencySettings): BudgetStatus[] => {
+  if (subscription.status !== 'Active' || !(getMonthlyCost(subscription) > 0)) return []
+
+  const others = subscriptions.filter(sub => sub.id !== subscription.id)
+  const before = findBudgetBreaches(others, budgets, currencySettings).map(status => status.category)
+  const after = findBudgetBreaches([...others, subscription], budgets, currencySettings)
+
+  // Only budgets this subscription touches: the overall budget and its own category
+  return after.filter(status =>
+    !before.includes(status.category) && (status.category === null || status.category === subscription.category)
+  )
+}
+
+// Load budget settings from database
+export const loadBudgetSettingsFromDB = async (userId: string): Promise<BudgetSettings | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .select('budget_currency, monthly_budget, category_budgets, budget_alerts, budget_workspace_id, budget_exchange_rates')
+      .eq('user_id', userId)
+      .single()
+
+    if (error) {
+      if (error.code !== 'PGRST116') {
+        console.error('Error loading budget settings:', error)
+      }
+      return null
+    }
+
+    if (!data) return null
+
+    return {
+      currency: data.budget_currency || DEFAULT_CURRENCY,
+      monthlyBudget: data.monthly_budget !== null && data.monthly_budget !== undefined ? Number(data.monthly_budget) : null,
+      categoryBudgets: data.category_budgets || {},
+      includeInReminders: data.budget_alerts || false,
+      workspaceId: data.budget_workspace_id || undefined,
+      exchangeRates: data.budget_exchange_rates || undefined
+    }
+  } catch (err) {
+    console.error('Error loading budget settings from DB:', err)
+    return null
+  }
+}
+
+// Save budget settings to database, creating the settings row if needed
+export const saveBudgetSettingsToDB = async (budgets: BudgetSettings, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('notification_settings')
+      .upsert({
+        user_id: userId,
+        budget_currency: budgets.currency,
+        monthly_budget: budgets.monthlyBudget,
+        category_budgets: budgets.categoryBudgets,
+        budget_alerts: budgets.includeInReminders,
+        budget_workspace_id: budgets.workspaceId || null,
+        budget_exchange_rates: budgets.exchangeRates || null
+      }, { onConflict: 'user_id' })
+
+    if (error) {
+      console.error('Error saving budget settings:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error saving budget settings to DB:', err)
+    return false
+  }
+}
+
+// Load budgets (tries DB first, falls back to localStorage)
+export const loadBudgetSettings = async (userId?: string): Promise<BudgetSettings> => {
+  if (typeof window === 'undefined') return DEFAULT_BUDGET_SETTINGS
+
+  if (userId) {
+    const dbBudgets = await loadBudgetSettingsFromDB(userId)
+    if (dbBudgets) {
+      return dbBudgets
+    }
+  }
+
+  const stored = localStorage.getItem('budget_settings')
+  if (stored) {
+    try {
+      return { ...DEFAULT_BUDGET_SETTINGS, ...JSON.parse(stored) }
+    } catch {
+      return DEFAULT_BUDGET_SETTINGS
+    }
+  }
+
+  return DEFAULT_BUDGET_SETTINGS
+}
+
+// Save budgets (tries DB first, falls back to localStorage)
+export const saveBudgetSettings = async (budgets: BudgetSettings, userId?: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  if (userId) {
+    const success = await saveBudgetSettingsToDB(budgets, userId)
+    if (success) {
+      return
+    }
+  }
+
+  localStorage.setItem('budget_settings', JSON.stringify(budgets))
+}
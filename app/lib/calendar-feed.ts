@@ -0,0 +1,96 @@
+// Calendar Feed Token Utilities
+//
+// Each Supabase user can have one secret token; /api/calendar/<token>.ics serves
+// their renewals so calendar apps can subscribe without signing in.
+
+import { generateToken } from './encoding'
+
+// Build the subscribe URL for a token
+export const getCalendarFeedUrl = (token: string): string => {
+  const origin = typeof window !== 'undefined' ? window.location.origin : ''
+  return `${origin}/api/calendar/${token}.ics`
+}
+
+// Load the user's feed token, or null if they have not created one
+export const loadCalendarFeedToken = async (userId: string): Promise<string | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .single()
+
+    if (error) {
+      if (error.code !== 'PGRST116') {
+        console.error('Error loading calendar feed token:', error)
+      }
+      return null
+    }
+
+    return data?.token || null
+  } catch (err) {
+    console.error('Error loading calendar feed token from DB:', err)
+    return null
+  }
+}
+
+// Create a new feed token, replacing (and so revoking) any existing one
+export const regenerateCalendarFeedToken = async (userId: string): Promise<string | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const token = generateToken()
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .upsert({ user_id: userId, token }, { onConflict: 'user_id' })
+
+    if (error) {
+      console.error('Error saving calendar feed token:', error)
+      return null
+    }
+
+    return token
+  } catch (err) {
+    console.error('Error regenerating calendar feed token:', err)
+    return null
+  }
+}
+
+// Remove the feed token so the subscribe URL stops working
+export const revokeCalendarFeedToken = async (userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error revoking calendar feed token:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error revoking calendar feed token:', err)
+    return false
+  }
+}
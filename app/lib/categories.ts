@@ -0,0 +1,273 @@
+// Category Utilities
+//
+// Like subscriptions, categories belong to the current workspace for Supabase users
+// (localStorage for local users), so every member groups the workspace's subscriptions
+// the same way. Subscriptions refer to their category by name. Workspaces start with
+// the five built-in categories, which owners and editors can rename, recolour or remove.
+
+import { generateSubscriptionId } from './subscriptions'
+import { getCurrentWorkspace, canEditWorkspace } from './workspaces'
+
+export type CategoryColor = 'blue' | 'purple' | 'pink' | 'green' | 'orange' | 'red' | 'yellow' | 'teal' | 'gray'
+export type CategoryIconKey = 'chip' | 'bag' | 'brush' | 'database' | 'play' | 'music' | 'book' | 'cloud' | 'heart' | 'home' | 'tag'
+
+export const CATEGORY_COLORS: CategoryColor[] = ['blue', 'purple', 'pink', 'green', 'orange', 'red', 'yellow', 'teal', 'gray']
+export const CATEGORY_ICON_KEYS: CategoryIconKey[] = ['chip', 'bag', 'brush', 'database', 'play', 'music', 'book', 'cloud', 'heart', 'home', 'tag']
+
+// Tailwind classes for each colour, written out in full so they are not purged
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, { text: string; swatch: string }> = {
+  blue: { text: 'text-blue-400', swatch: 'bg-blue-400' },
+  purple: { text: 'text-purple-400', swatch: 'bg-purple-400' },
+  pink: { text: 'text-pink-400', swatch: 'bg-pink-400' },
+  green: { text: 'text-green-400', swatch: 'bg-green-400' },
+  orange: { text: 'text-orange-400', swatch: 'bg-orange-400' },
+  red: { text: 'text-red-400', swatch: 'bg-red-400' },
+  yellow: { text: 'text-yellow-400', swatch: 'bg-yellow-400' },
+  teal: { text: 'text-teal-400', swatch: 'bg-teal-400' },
+  gray: { text: 'text-gray-400', swatch: 'bg-gray-400' }
+}
+
+export interface CategoryDefinition {
+  id: string
+  name: string
+  color: CategoryColor
+  icon: CategoryIconKey
+}
+
+// Database category type (matches Supabase schema)
+interface DatabaseCategory {
+  id: string
+  workspace_id: string
+  name: string
+  color: string
+  icon: string
+  created_at?: string
+  updated_at?: string
+}
+
+// The built-in categories every user starts with
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: 'software', name: 'Software', color: 'blue', icon: 'chip' },
+  { id: 'shopping', name: 'Shopping', color: 'purple', icon: 'bag' },
+  { id: 'design', name: 'Design', color: 'pink', icon: 'brush' },
+  { id: 'storage', name: 'Storage', color: 'green', icon: 'database' },
+  { id: 'entertainment', name: 'Entertainment', color: 'orange', icon: 'play' }
+]
+
+const fromDatabaseCategory = (row: DatabaseCategory): CategoryDefinition => ({
+  id: row.id,
+  name: row.name,
+  color: CATEGORY_COLORS.includes(row.color as CategoryColor) ? row.color as CategoryColor : 'gray',
+  icon: CATEGORY_ICON_KEYS.includes(row.icon as CategoryIconKey) ? row.icon as CategoryIconKey : 'tag'
+})
+
+// Look up a category by name, falling back to the built-ins and then to a plain tag
+export const findCategory = (name: string, categories: CategoryDefinition[] = []): CategoryDefinition => {
+  const key = name.trim().toLowerCase()
+  return categories.find(category => category.name.toLowerCase() === key)
+    || DEFAULT_CATEGORIES.find(category => category.name.toLowerCase() === key)
+    || { id: key, name, color: 'gray', icon: 'tag' }
+}
+
+// Fresh copies of the built-in categories with real IDs, used to seed a new workspace
+const createDefaultCategories = (): CategoryDefinition[] => {
+  return DEFAULT_CATEGORIES.map(category => ({ ...category, id: generateSubscriptionId() }))
+}
+
+// Validate a category name, returning an error message or null
+export const validateCategoryName = (name: string, categories: CategoryDefinition[], editingId?: string): string | null => {
+  const trimmed = name.trim()
+  if (!trimmed) {
+    return 'Name is required'
+  }
+  if (trimmed.length > 30) {
+    return 'Name must be 30 characters or fewer'
+  }
+  const duplicate = categories.some(category =>
+    category.id !== editingId && category.name.toLowerCase() === trimmed.toLowerCase()
+  )
+  if (duplicate) {
+    return 'A category with this name already exists'
+  }
+  return null
+}
+
+// LocalStorage Utilities (for local auth fallback)
+const getStorageKey = (userKey: string): string => {
+  return `categories_${userKey}`
+}
+
+const loadCategoriesLocal = (userKey: string): CategoryDefinition[] | null => {
+  const stored = localStorage.getItem(getStorageKey(userKey))
+  if (!stored) return null
+
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return null
+  }
+}
+
+const saveCategoriesLocal = (categories: CategoryDefinition[], userKey: string): void => {
+  localStorage.setItem(getStorageKey(userKey), JSON.stringify(categories))
+}
+
+// Load the current workspace's categories from Supabase database; null if the database could not be reached
+export const loadCategoriesFromDB = async (userId: string): Promise<CategoryDefinition[] | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return null
+
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading categories:', error)
+      return null
+    }
+
+    return (data || []).map(fromDatabaseCategory)
+  } catch (err) {
+    console.error('Error loading categories from DB:', err)
+    return null
+  }
+}
+
+// Insert or update categories of the current workspace in Supabase database
+export const saveCategoriesToDB = async (categories: CategoryDefinition[], userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
+
+    const { error } = await supabase
+      .from('categories')
+      .upsert(categories.map(category => ({
+        id: category.id,
+        workspace_id: workspace.id,
+        name: category.name,
+        color: category.color,
+        icon: category.icon
+      })))
+
+    if (error) {
+      console.error('Error saving categories:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error saving categories to DB:', err)
+    return false
+  }
+}
+
+// Delete a category of the current workspace from Supabase database
+export const deleteCategoryFromDB = async (categoryId: string, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
+
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', categoryId)
+      .eq('workspace_id', workspace.id)
+
+    if (error) {
+      console.error('Error deleting category:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error deleting category from DB:', err)
+    return false
+  }
+}
+
+// Main load function - tries DB first, falls back to localStorage.
+// Workspaces and local users without any categories yet are given the built-in set
+// (only shown, not saved, to workspace viewers).
+export const loadCategories = async (userKey: string, userId?: string): Promise<CategoryDefinition[]> => {
+  if (typeof window === 'undefined') return DEFAULT_CATEGORIES
+
+  if (userId) {
+    const dbCategories = await loadCategoriesFromDB(userId)
+    if (dbCategories && dbCategories.length > 0) {
+      return dbCategories
+    }
+    if (dbCategories) {
+      if (!canEditWorkspace(await getCurrentWorkspace(userId))) {
+        return DEFAULT_CATEGORIES
+      }
+      const defaults = createDefaultCategories()
+      if (await saveCategoriesToDB(defaults, userId)) {
+        return defaults
+      }
+    }
+  }
+
+  const localCategories = loadCategoriesLocal(userKey)
+  if (localCategories && localCategories.length > 0) {
+    return localCategories
+  }
+
+  const defaults = createDefaultCategories()
+  saveCategoriesLocal(defaults, userKey)
+  return defaults
+}
+
+// Add or update a category, returning the updated list
+export const saveCategory = async (category: CategoryDefinition, categories: CategoryDefinition[], userKey: string, userId?: string): Promise<CategoryDefinition[]> => {
+  const exists = categories.some(existing => existing.id === category.id)
+  const updatedCategories = exists
+    ? categories.map(existing => (existing.id === category.id ? category : existing))
+    : [...categories, category]
+
+  if (typeof window === 'undefined') return updatedCategories
+
+  if (userId && await saveCategoriesToDB([category], userId)) {
+    return updatedCategories
+  }
+
+  saveCategoriesLocal(updatedCategories, userKey)
+  return updatedCategories
+}
+
+// Delete a category, returning the updated list
+export const deleteCategory = async (categoryId: string, categories: CategoryDefinition[], userKey: string, userId?: string): Promise<CategoryDefinition[]> => {
+  const updatedCategories = categories.filter(category => category.id !== categoryId)
+
+  if (typeof window === 'undefined') return updatedCategories
+
+  if (userId && await deleteCategoryFromDB(categoryId, userId)) {
+    return updatedCategories
+  }
+
+  saveCategoriesLocal(updatedCategories, userKey)
+  return updatedCategories
+}
@@ -0,0 +1,151 @@
+// Currency & Exchange Rate Utilities
+
+export const DEFAULT_CURRENCY = 'INR'
+
+export const CURRENCIES: string[] = ['INR', 'USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'SGD', 'AED']
+
+// Exchange rates expressed as units of each currency per one unit of the base currency
+export interface ExchangeRates {
+  base: string
+  rates: Record<string, number>
+}
+
+export interface CurrencySettings {
+  homeCurrency: string
+  exchangeRates: ExchangeRates
+}
+
+// Approximate starting rates; users are expected to edit or import their own
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    INR: 83,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    AUD: 1.52,
+    CAD: 1.36,
+    SGD: 1.34,
+    AED: 3.67
+  }
+}
+
+const CURRENCY_SETTINGS_KEY = 'currency_settings'
+
+// Convert an amount between currencies. Amounts in a currency with no known rate are
+// returned unconverted rather than dropped from totals.
+export const convertAmount = (amount: number, from: string, to: string, exchangeRates: ExchangeRates): number => {
+  if (from === to) return amount
+
+  const fromRate = from === exchangeRates.base ? 1 : exchangeRates.rates[from]
+  const toRate = to === exchangeRates.base ? 1 : exchangeRates.rates[to]
+
+  if (!fromRate || !toRate) {
+    console.warn(`No exchange rate for ${from} -> ${to}, using unconverted amount`)
+    return amount
+  }
+
+  return amount / fromRate * toRate
+}
+
+// Format an amount with its currency symbol, e.g. ₹499.00
+export const formatCurrency = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2
+    }).format(amount)
+  } catch {
+    // Unknown currency code
+    return `${currency} ${amount.toFixed(2)}`
+  }
+}
+
+const isCurrencyCode = (value: string): boolean => /^[A-Z]{3}$/.test(value)
+
+// Parse an exchange rate file. Accepts JSON ({ "base": "USD", "rates": { "INR": 83 } })
+// or CSV rows of "currency,rate" (header optional) relative to the given base.
+export const parseExchangeRatesFile = (content: string, fileName: string, currentBase: string): { exchangeRates?: ExchangeRates; error?: string } => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || content.trim().startsWith('{')
+
+  const rates: Record<string, number> = {}
+  let base = currentBase
+
+  if (isJson) {
+    let parsed: any
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      return { error: 'File is not valid JSON' }
+    }
+
+    if (parsed.base !== undefined) {
+      if (typeof parsed.base !== 'string' || !isCurrencyCode(parsed.base.toUpperCase())) {
+        return { error: 'Invalid base currency' }
+      }
+      base = parsed.base.toUpperCase()
+    }
+
+    if (!parsed.rates || typeof parsed.rates !== 'object') {
+      return { error: 'JSON must contain a "rates" object' }
+    }
+
+    for (const [code, rate] of Object.entries(parsed.rates)) {
+      rates[code.toUpperCase()] = Number(rate)
+    }
+  } else {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    lines.forEach((line, index) => {
+      const [code, rate] = line.split(',').map(part => part.trim())
+      if (index === 0 && isNaN(Number(rate))) return // Header row
+      rates[(code || '').toUpperCase()] = Number(rate)
+    })
+  }
+
+  for (const [code, rate] of Object.entries(rates)) {
+    if (!isCurrencyCode(code)) {
+      return { error: `Invalid currency code "${code}"` }
+    }
+    if (!isFinite(rate) || rate <= 0) {
+      return { error: `Rate for ${code} must be a positive number` }
+    }
+  }
+
+  if (Object.keys(rates).length === 0) {
+    return { error: 'No exchange rates found in file' }
+  }
+
+  return { exchangeRates: { base, rates: { ...rates, [base]: 1 } } }
+}
+
+// Load currency settings from localStorage
+export const loadCurrencySettings = (): CurrencySettings => {
+  const defaults: CurrencySettings = {
+    homeCurrency: DEFAULT_CURRENCY,
+    exchangeRates: DEFAULT_EXCHANGE_RATES
+  }
+
+  if (typeof window === 'undefined') return defaults
+
+  const stored = localStorage.getItem(CURRENCY_SETTINGS_KEY)
+  if (!stored) return defaults
+
+  try {
+    const parsed = JSON.parse(stored)
+    return {
+      homeCurrency: parsed.homeCurrency || defaults.homeCurrency,
+      exchangeRates: parsed.exchangeRates || defaults.exchangeRates
+    }
+  } catch {
+    return defaults
+  }
+}
+
+// Save currency settings to localStorage
+export const saveCurrencySettings = (settings: CurrencySettings): void => {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(CURRENCY_SETTINGS_KEY, JSON.stringify(settings))
+}
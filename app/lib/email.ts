@@ -0,0 +1,88 @@
+// Email Transport Utilities (server-only)
+//
+// The transport is chosen by EMAIL_TRANSPORT: 'smtp', 'file' (writes messages to
+// EMAIL_OUTBOX_DIR, default .outbox) or 'console'. Without it, SMTP is used when
+// SMTP_HOST is set and the console transport otherwise.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface EmailTransport {
+  name: string
+  send: (message: EmailMessage) => Promise<void>
+}
+
+// The app's public address (SITE_URL), for links in emails; null if not configured.
+// Not taken from the request, whose Host header the client controls.
+export const getSiteUrl = (): string | null => {
+  const siteUrl = process.env.SITE_URL
+  return siteUrl ? siteUrl.replace(/\/+$/, '') : null
+}
+
+const getFromAddress = (): string => {
+  return process.env.EMAIL_FROM || 'Subscription Tracker <no-reply@localhost>'
+}
+
+export const createSmtpTransport = (): EmailTransport => {
+  let transporter: import('nodemailer').Transporter | null = null
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      if (!transporter) {
+        const nodemailer = await import('nodemailer')
+        const port = Number(process.env.SMTP_PORT || 587)
+        transporter = nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+            : undefined,
+        })
+      }
+
+      await transporter.sendMail({ from: getFromAddress(), ...message })
+    },
+  }
+}
+
+export const createFileTransport = (outboxDir: string = process.env.EMAIL_OUTBOX_DIR || '.outbox'): EmailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(outboxDir, { recursive: true })
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.json`
+    await fs.writeFile(
+      path.join(outboxDir, fileName),
+      JSON.stringify({ from: getFromAddress(), ...message }, null, 2)
+    )
+  },
+})
+
+export const createConsoleTransport = (): EmailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`)
+  },
+})
+
+export const getEmailTransport = (): EmailTransport => {
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport()
+    case 'file':
+      return createFileTransport()
+    default:
+      return createConsoleTransport()
+  }
+}
@@ -0,0 +1,19 @@
+// Encoding Utilities
+//
+// Shared by the browser and server-only modules: escaping text for HTML emails, and
+// the random tokens used in secret links (calendar feeds, workspace invitations).
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Random hex token, 24 bytes (48 characters) unless another length is given
+export const generateToken = (byteLength: number = 24): string => {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,146 @@
+// iCalendar (.ics) Utilities
+//
+// Builds one recurring all-day VEVENT per active subscription, with an RRULE derived
+// from its cycle and a VALARM matching the user's notification timeframe.
+
+import { Subscription } from './subscriptions'
+import { NotificationTimeframe, getTimeframeDays } from './notifications'
+import { toCalendarDay } from './recurrence'
+import { formatCurrency } from './currency'
+
+export interface CalendarOptions {
+  calendarName?: string
+  // Adds a reminder this long before each renewal
+  timeframe?: NotificationTimeframe
+}
+
+const formatICalDate = (date: Date): string => {
+  return date.toISOString().split('T')[0].replace(/-/g, '')
+}
+
+const formatICalTimestamp = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Fold lines longer than 75 octets of UTF-8 (RFC 5545 section 3.1), never splitting a
+// character. Continuation lines start with a space, which counts towards their 75.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of Array.from(line)) {
+    const size = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.map((part, index) => (index === 0 ? part : ' ' + part)).join('\r\n')
+}
+
+// Days of the month that clamp to the month end, matching the app's recurrence
+// (a renewal on the 31st falls on the 30th, 29th or 28th in shorter months)
+const monthDayRule = (day: number): string => {
+  if (day <= 28) return ''
+  const days: number[] = []
+  for (let d = 28; d <= day; d++) days.push(d)
+  return `;BYMONTHDAY=${days.join(',')};BYSETPOS=-1`
+}
+
+// RRULE for a subscription's cycle, or null if it does not recur
+export const buildRecurrenceRule = (subscription: Subscription): string | null => {
+  const start = toCalendarDay(subscription.renewalDate)
+  const day = start.getUTCDate()
+  const monthly = (interval: number) => `FREQ=MONTHLY${interval > 1 ? `;INTERVAL=${interval}` : ''}${monthDayRule(day)}`
+
+  switch (subscription.cycle) {
+    case 'Weekly':
+      return 'FREQ=WEEKLY'
+    case 'Monthly':
+      return monthly(1)
+    case 'Quarterly':
+      return monthly(3)
+    case 'Semi-Annually':
+      return monthly(6)
+    case 'Annually':
+      return `FREQ=YEARLY${day > 28 ? `;BYMONTH=${start.getUTCMonth() + 1}` : ''}${monthDayRule(day)}`
+    case 'Custom': {
+      const interval = subscription.customInterval
+      if (!interval || interval.count < 1) return null
+      if (interval.unit === 'days') return `FREQ=DAILY;INTERVAL=${interval.count}`
+      if (interval.unit === 'weeks') return `FREQ=WEEKLY;INTERVAL=${interval.count}`
+      return monthly(interval.count)
+    }
+    default:
+      return null
+  }
+}
+
+export const buildCalendar = (subscriptions: Subscription[], options: CalendarOptions = {}): string => {
+  const calendarName = options.calendarName || 'Subscription renewals'
+  const timestamp = formatICalTimestamp(new Date())
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Subscription Tracker//Renewals//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ]
+
+  subscriptions
+    .filter(sub => sub.status === 'Active')
+    .forEach(sub => {
+      const start = toCalendarDay(sub.renewalDate)
+      const end = new Date(start)
+      end.setUTCDate(start.getUTCDate() + 1)
+      const rule = buildRecurrenceRule(sub)
+      const cost = formatCurrency(sub.cost, sub.currency)
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${sub.id}@subscription-tracker`,
+        `DTSTAMP:${timestamp}`,
+        `DTSTART;VALUE=DATE:${formatICalDate(start)}`,
+        `DTEND;VALUE=DATE:${formatICalDate(end)}`,
+        `SUMMARY:${escapeText(`${sub.name} renews (${cost})`)}`,
+        `DESCRIPTION:${escapeText(`${sub.name} renews for ${cost}. Category: ${sub.category}.`)}`,
+        'TRANSP:TRANSPARENT',
+      )
+      if (rule) {
+        lines.push(`RRULE:${rule}`)
+      }
+      if (options.timeframe) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`${sub.name} renews in ${options.timeframe}`)}`,
+          `TRIGGER:-P${getTimeframeDays(options.timeframe)}D`,
+          'END:VALARM',
+        )
+      }
+      lines.push('END:VEVENT')
+    })
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,294 @@
+// Subscription Import & Export Utilities
+
+import {
+  Subscription,
+  SubscriptionFormData,
+  Cycle,
+  Status,
+  IntervalUnit,
+  CYCLES,
+  STATUSES,
+  INTERVAL_UNITS,
+  toDateInputValue,
+  validateSubscriptionForm
+} from './subscriptions'
+import { DEFAULT_CURRENCY } from './currency'
+import { CategoryDefinition, DEFAULT_CATEGORIES, findCategory } from './categories'
+import { CostSplit, SPLIT_METHODS, splitToFormData } from './splits'
+import { PaymentMethod } from './payment-methods'
+
+// Column order used for CSV export; import also accepts these as headers in any order
+const CSV_COLUMNS = ['name', 'cost', 'currency', 'renewalDate', 'cycle', 'intervalCount', 'intervalUnit', 'status', 'category', 'trialStartDate', 'trialEndDate', 'postTrialCost', 'cancellationDate', 'activeUntil', 'split', 'paymentMethodId'] as const
+
+// A single row from an import file, validated and ready for preview
+export interface ImportPreviewRow {
+  rowNumber: number
+  formData: SubscriptionFormData
+  errors: Record<string, string>
+  duplicate: boolean
+}
+
+// Plain object form of a subscription used in export files. The split is written as
+// JSON text, which the JSON export replaces with the object itself.
+const toExportRecord = (subscription: Subscription): Record<(typeof CSV_COLUMNS)[number], string | number> => ({
+  name: subscription.name,
+  cost: subscription.cost,
+  currency: subscription.currency,
+  renewalDate: toDateInputValue(subscription.renewalDate),
+  cycle: subscription.cycle,
+  intervalCount: subscription.customInterval ? subscription.customInterval.count : '',
+  intervalUnit: subscription.customInterval ? subscription.customInterval.unit : '',
+  status: subscription.status,
+  category: subscription.category,
+  trialStartDate: subscription.trialStartDate ? toDateInputValue(subscription.trialStartDate) : '',
+  trialEndDate: subscription.trialEndDate ? toDateInputValue(subscription.trialEndDate) : '',
+  postTrialCost: subscription.postTrialCost !== undefined ? subscription.postTrialCost : '',
+  cancellationDate: subscription.cancellationDate ? toDateInputValue(subscription.cancellationDate) : '',
+  activeUntil: subscription.activeUntil ? toDateInputValue(subscription.activeUntil) : '',
+  split: subscription.split ? JSON.stringify(subscription.split) : '',
+  paymentMethodId: subscription.paymentMethodId || ''
+})
+
+export const exportSubscriptionsToJSON = (subscriptions: Subscription[]): string => {
+  return JSON.stringify(subscriptions.map(sub => ({ ...toExportRecord(sub), split: sub.split || null })), null, 2)
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/
+
+// Quote a CSV cell, and prefix anything a spreadsheet would treat as a formula with '
+const escapeCsvValue = (value: string | number): string => {
+  const str = FORMULA_PREFIX.test(String(value)) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+// Undo escapeCsvValue's formula prefix
+const unescapeCsvValue = (value: string): string => {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+export const exportSubscriptionsToCSV = (subscriptions: Subscription[]): string => {
+  const rows = subscriptions.map(sub => {
+    const record = toExportRecord(sub)
+    return CSV_COLUMNS.map(column => escapeCsvValue(record[column])).join(',')
+  })
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+// Parse CSV text into rows of cells, handling quoted values with commas, quotes and newlines
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+// Find a value case-insensitively, ignoring spaces and underscores in keys
+const pickValue = (record: Record<string, any>, key: string): unknown => {
+  const normalise = (value: string) => value.toLowerCase().replace(/[\s_]/g, '')
+  const match = Object.keys(record).find(k => normalise(k) === normalise(key))
+  return match !== undefined ? record[match] : undefined
+}
+
+const pick = (record: Record<string, any>, key: string): string => {
+  const value = pickValue(record, key)
+  return value === undefined || value === null ? '' : String(value).trim()
+}
+
+// A split as exported: an object in JSON files, JSON text in CSV files. Returns null
+// when there is none, and undefined when it cannot be read.
+const pickSplit = (record: Record<string, any>): CostSplit | null | undefined => {
+  let value = pickValue(record, 'split')
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }
+
+  const split = value as CostSplit
+  const isShare = (share: unknown) => typeof share === 'number' && isFinite(share)
+  const valid = !!split && typeof split === 'object'
+    && SPLIT_METHODS.includes(split.method)
+    && isShare(split.myShare)
+    && Array.isArray(split.participants)
+    && split.participants.every(participant => !!participant && typeof participant.name === 'string' && isShare(participant.share))
+    && (split.paidBy === undefined || typeof split.paidBy === 'string')
+  return valid ? split : undefined
+}
+
+const matchOption = <T extends string>(value: string, options: T[]): T | undefined => {
+  return options.find(option => option.toLowerCase() === value.toLowerCase())
+}
+
+// Turn a raw record into form data plus errors for values the form's selects would not allow.
+// Payment methods that are not the workspace's own are dropped.
+const recordToFormData = (record: Record<string, any>, categories: CategoryDefinition[], paymentMethods: PaymentMethod[]): { formData: SubscriptionFormData; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {}
+
+  const cycleValue = pick(record, 'cycle') || 'Monthly'
+  const cycle = matchOption<Cycle>(cycleValue, CYCLES)
+  if (!cycle) errors.cycle = `Unknown cycle "${cycleValue}"`
+
+  const unitValue = pick(record, 'intervalUnit') || 'months'
+  const intervalUnit = matchOption<IntervalUnit>(unitValue, INTERVAL_UNITS)
+  if (cycle === 'Custom' && !intervalUnit) errors.intervalUnit = `Unknown interval unit "${unitValue}"`
+
+  const statusValue = pick(record, 'status') || 'Active'
+  const status = matchOption<Status>(statusValue, STATUSES)
+  if (!status) errors.status = `Unknown status "${statusValue}"`
+
+  const categoryNames = categories.map(category => category.name)
+  const categoryValue = pick(record, 'category') || categoryNames[0] || ''
+  const category = matchOption<string>(categoryValue, categoryNames)
+  if (!category) errors.category = `Unknown category "${categoryValue}"`
+
+  const currency = (pick(record, 'currency') || DEFAULT_CURRENCY).toUpperCase()
+  if (!/^[A-Z]{3}$/.test(currency)) errors.currency = `Invalid currency "${currency}"`
+
+  const split = pickSplit(record)
+  if (split === undefined) errors.split = 'Invalid split'
+
+  const paymentMethodId = pick(record, 'paymentMethodId')
+
+  return {
+    formData: {
+      name: pick(record, 'name'),
+      cost: pick(record, 'cost'),
+      currency,
+      renewalDate: pick(record, 'renewalDate'),
+      cycle: cycle || 'Monthly',
+      intervalCount: pick(record, 'intervalCount') || '1',
+      intervalUnit: intervalUnit || 'months',
+      status: status || 'Active',
+      category: category || categoryValue,
+      trialStartDate: pick(record, 'trialStartDate'),
+      trialEndDate: pick(record, 'trialEndDate'),
+      postTrialCost: pick(record, 'postTrialCost'),
+      cancellationDate: pick(record, 'cancellationDate'),
+      activeUntil: pick(record, 'activeUntil'),
+      ...splitToFormData(split || undefined),
+      paymentMethodId: paymentMethods.some(method => method.id === paymentMethodId) ? paymentMethodId : ''
+    },
+    errors
+  }
+}
+
+// Parse an import file (JSON array or CSV with a header row) and validate each row
+// with the add form's rules. Categories must match one of the workspace's categories,
+// or one still used by its subscriptions after being removed.
+// Duplicates are matched by name against existing subscriptions and earlier rows in the same file.
+export const parseSubscriptionsFile = (content: string, fileName: string, existing: Subscription[], categories: CategoryDefinition[] = DEFAULT_CATEGORIES, paymentMethods: PaymentMethod[] = []): { rows: ImportPreviewRow[]; error?: string } => {
+  let records: Record<string, any>[]
+
+  const isJson = fileName.toLowerCase().endsWith('.json') || content.trim().startsWith('[')
+  if (isJson) {
+    try {
+      const parsed = JSON.parse(content)
+      if (!Array.isArray(parsed)) {
+        return { rows: [], error: 'JSON file must contain an array of subscriptions' }
+      }
+      records = parsed
+    } catch {
+      return { rows: [], error: 'File is not valid JSON' }
+    }
+  } else {
+    const [header, ...dataRows] = parseCsv(content)
+    if (!header) {
+      return { rows: [], error: 'File is empty' }
+    }
+    records = dataRows.map(cells => {
+      const record: Record<string, string> = {}
+      header.forEach((column, index) => {
+        record[column.trim()] = unescapeCsvValue(cells[index] || '')
+      })
+      return record
+    })
+  }
+
+  if (records.length === 0) {
+    return { rows: [], error: 'No subscriptions found in file' }
+  }
+
+  const seenNames = new Set(existing.map(sub => sub.name.trim().toLowerCase()))
+  const knownCategories = existing.reduce((known, sub) => (
+    known.some(category => category.name === sub.category) ? known : [...known, findCategory(sub.category, categories)]
+  ), categories)
+
+  const rows = records.map((record, index) => {
+    if (!record || typeof record !== 'object') {
+      return {
+        rowNumber: index + 1,
+        formData: recordToFormData({}, knownCategories, paymentMethods).formData,
+        errors: { name: 'Row is not an object' },
+        duplicate: false
+      }
+    }
+
+    const { formData, errors } = recordToFormData(record, knownCategories, paymentMethods)
+    const nameKey = formData.name.toLowerCase()
+    const duplicate = nameKey !== '' && seenNames.has(nameKey)
+    seenNames.add(nameKey)
+
+    return {
+      rowNumber: index + 1,
+      formData,
+      errors: { ...errors, ...validateSubscriptionForm(formData) },
+      duplicate
+    }
+  })
+
+  return { rows }
+}
+
+// Trigger a browser download of text content
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  if (typeof window === 'undefined') return
+
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -7,6 +7,22 @@ export interface NotificationSettings {
   timeframe: NotificationTimeframe
 }
 
+// Number of days before a renewal that a timeframe covers
+export const getTimeframeDays = (timeframe: NotificationTimeframe): number => {
+  switch (timeframe) {
+    case '1 day':
+      return 1
+    case '3 days':
+      return 3
+    case '1 week':
+      return 7
+    case '2 weeks':
+      return 14
+    default:
+      return 3
+  }
+}
+
 // Load notification settings from database
 export const loadNotificationSettingsFromDB = async (userId: string): Promise<NotificationSettings | null> => {
   try {
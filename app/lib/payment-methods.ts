@@ -0,0 +1,290 @@
+// Payment Method Utilities
+//
+// Cards and accounts that subscriptions are paid with. Like subscriptions they
+// belong to the current workspace for Supabase users (localStorage for local users),
+// so every member sees which card pays for what. Only a label, the last four digits
+// and the expiry are kept, never full card numbers.
+
+import { Subscription, generateSubscriptionId, isRenewing } from './subscriptions'
+import { toCalendarDay } from './recurrence'
+import { getCurrentWorkspace } from './workspaces'
+
+export type PaymentMethodType = 'credit' | 'debit' | 'bank' | 'paypal' | 'other'
+
+export const PAYMENT_METHOD_TYPES: PaymentMethodType[] = ['credit', 'debit', 'bank', 'paypal', 'other']
+
+export const PAYMENT_METHOD_TYPE_LABELS: Record<PaymentMethodType, string> = {
+  credit: 'Credit card',
+  debit: 'Debit card',
+  bank: 'Bank account',
+  paypal: 'PayPal',
+  other: 'Other'
+}
+
+export interface PaymentMethod {
+  id: string
+  label: string
+  type: PaymentMethodType
+  last4?: string
+  // Card expiry; only set for cards
+  expiryMonth?: number
+  expiryYear?: number
+}
+
+// Database payment method type (matches Supabase schema)
+interface DatabasePaymentMethod {
+  id: string
+  workspace_id: string
+  label: string
+  type: PaymentMethodType
+  last4: string | null
+  expiry_month: number | null
+  expiry_year: number | null
+  created_at?: string
+  updated_at?: string
+}
+
+const fromDatabasePaymentMethod = (row: DatabasePaymentMethod): PaymentMethod => ({
+  id: row.id,
+  label: row.label,
+  type: PAYMENT_METHOD_TYPES.includes(row.type) ? row.type : 'other',
+  last4: row.last4 || undefined,
+  expiryMonth: row.expiry_month || undefined,
+  expiryYear: row.expiry_year || undefined
+})
+
+export const isCard = (method: Pick<PaymentMethod, 'type'>): boolean => {
+  return method.type === 'credit' || method.type === 'debit'
+}
+
+// e.g. "Work Visa •••• 4242"
+export const formatPaymentMethod = (method: PaymentMethod): string => {
+  return method.last4 ? `${method.label} •••• ${method.last4}` : method.label
+}
+
+// e.g. "08/27"
+export const formatExpiry = (method: PaymentMethod): string | null => {
+  if (!method.expiryMonth || !method.expiryYear) return null
+  return `${method.expiryMonth.toString().padStart(2, '0')}/${(method.expiryYear % 100).toString().padStart(2, '0')}`
+}
+
+// Last day a card can be used: the end of its expiry month
+export const getExpiryDate = (method: PaymentMethod): Date | null => {
+  if (!isCard(method) || !method.expiryMonth || !method.expiryYear) return null
+  return new Date(Date.UTC(method.expiryYear, method.expiryMonth, 0))
+}
+
+// Validate a payment method, returning an error message or null
+export const validatePaymentMethod = (method: Omit<PaymentMethod, 'id'>): string | null => {
+  const label = method.label.trim()
+  if (!label) {
+    return 'Label is required'
+  }
+  if (label.length > 50) {
+    return 'Label must be 50 characters or fewer'
+  }
+  if (method.last4 && !/^[0-9]{4}$/.test(method.last4)) {
+    return 'Enter exactly the last 4 digits'
+  }
+  if (isCard(method) && (method.expiryMonth || method.expiryYear)) {
+    if (!method.expiryMonth || method.expiryMonth < 1 || method.expiryMonth > 12) {
+      return 'Expiry month must be between 1 and 12'
+    }
+    if (!method.expiryYear || method.expiryYear < 2000 || method.expiryYear > 2100) {
+      return 'Enter the expiry year in full, e.g. 2028'
+    }
+  }
+  return null
+}
+
+// The payment method a subscription is paid with, if it is set and still exists
+export const findPaymentMethod = (subscription: Subscription, methods: PaymentMethod[]): PaymentMethod | undefined => {
+  return subscription.paymentMethodId ? methods.find(method => method.id === subscription.paymentMethodId) : undefined
+}
+
+// Whether a subscription's card expires before its next renewal
+export const expiresBeforeRenewal = (subscription: Subscription, method: PaymentMethod | undefined): boolean => {
+  const expiry = method ? getExpiryDate(method) : null
+  return !!expiry && isRenewing(subscription) && expiry < toCalendarDay(subscription.renewalDate)
+}
+
+// Renewing subscriptions whose card will have expired by their next renewal, soonest renewal first
+export const findExpiringPaymentMethods = (subscriptions: Subscription[], methods: PaymentMethod[]): { subscription: Subscription; method: PaymentMethod }[] => {
+  return subscriptions
+    .map(subscription => ({ subscription, method: findPaymentMethod(subscription, methods) }))
+    .filter((entry): entry is { subscription: Subscription; method: PaymentMethod } => expiresBeforeRenewal(entry.subscription, entry.method))
+    .sort((a, b) => a.subscription.renewalDate.getTime() - b.subscription.renewalDate.getTime())
+}
+
+// A new payment method with a real ID
+export const createPaymentMethod = (draft: Omit<PaymentMethod, 'id'>): PaymentMethod => ({
+  ...draft,
+  id: generateSubscriptionId(),
+  label: draft.label.trim()
+})
+
+// LocalStorage Utilities (for local auth fallback)
+const getStorageKey = (userKey: string): string => {
+  return `payment_methods_${userKey}`
+}
+
+const loadPaymentMethodsLocal = (userKey: string): PaymentMethod[] => {
+  const stored = localStorage.getItem(getStorageKey(userKey))
+  if (!stored) return []
+
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return []
+  }
+}
+
+const savePaymentMethodsLocal = (methods: PaymentMethod[], userKey: string): void => {
+  localStorage.setItem(getStorageKey(userKey), JSON.stringify(methods))
+}
+
+// Load the current workspace's payment methods from Supabase database; null if the database could not be reached
+export const loadPaymentMethodsFromDB = async (userId: string): Promise<PaymentMethod[] | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return null
+
+    const { data, error } = await supabase
+      .from('payment_methods')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading payment methods:', error)
+      return null
+    }
+
+    return (data || []).map(fromDatabasePaymentMethod)
+  } catch (err) {
+    console.error('Error loading payment methods from DB:', err)
+    return null
+  }
+}
+
+// Insert or update a payment method in Supabase database
+export const savePaymentMethodToDB = async (method: PaymentMethod, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
+
+    const row: Omit<DatabasePaymentMethod, 'created_at' | 'updated_at'> = {
+      id: method.id,
+      workspace_id: workspace.id,
+      label: method.label,
+      type: method.type,
+      last4: method.last4 || null,
+      expiry_month: isCard(method) && method.expiryMonth ? method.expiryMonth : null,
+      expiry_year: isCard(method) && method.expiryYear ? method.expiryYear : null
+    }
+
+    const { error } = await supabase
+      .from('payment_methods')
+      .upsert(row)
+
+    if (error) {
+      console.error('Error saving payment method:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error saving payment method to DB:', err)
+    return false
+  }
+}
+
+// Delete a payment method from Supabase database; subscriptions using it are left without one
+export const deletePaymentMethodFromDB = async (methodId: string, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
+
+    const { error } = await supabase
+      .from('payment_methods')
+      .delete()
+      .eq('id', methodId)
+      .eq('workspace_id', workspace.id)
+
+    if (error) {
+      console.error('Error deleting payment method:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error deleting payment method from DB:', err)
+    return false
+  }
+}
+
+// Main load function - tries DB first, falls back to localStorage
+export const loadPaymentMethods = async (userKey: string, userId?: string): Promise<PaymentMethod[]> => {
+  if (typeof window === 'undefined') return []
+
+  if (userId) {
+    const dbMethods = await loadPaymentMethodsFromDB(userId)
+    if (dbMethods) {
+      return dbMethods
+    }
+  }
+
+  return loadPaymentMethodsLocal(userKey)
+}
+
+// Add or update a payment method, returning the updated list
+export const savePaymentMethod = async (method: PaymentMethod, methods: PaymentMethod[], userKey: string, userId?: string): Promise<PaymentMethod[]> => {
+  const exists = methods.some(existing => existing.id === method.id)
+  const updatedMethods = exists
+    ? methods.map(existing => (existing.id === method.id ? method : existing))
+    : [...methods, method]
+
+  if (typeof window === 'undefined') return updatedMethods
+
+  if (userId && await savePaymentMethodToDB(method, userId)) {
+    return updatedMethods
+  }
+
+  savePaymentMethodsLocal(updatedMethods, userKey)
+  return updatedMethods
+}
+
+// Delete a payment method, returning the updated list
+export const deletePaymentMethod = async (methodId: string, methods: PaymentMethod[], userKey: string, userId?: string): Promise<PaymentMethod[]> => {
+  const updatedMethods = methods.filter(method => method.id !== methodId)
+
+  if (typeof window === 'undefined') return updatedMethods
+
+  if (userId && await deletePaymentMethodFromDB(methodId, userId)) {
+    return updatedMethods
+  }
+
+  savePaymentMethodsLocal(updatedMethods, userKey)
+  return updatedMethods
+}
@@ -0,0 +1,347 @@
+// Payment Ledger Utilities
+//
+// Every renewal of a subscription is an expected payment. Expected entries are not
+// stored: they are generated from each subscription's recurrence, and only the
+// user's record of what happened (paid, with the actual amount, date and method, or
+// missed) is saved. Supabase users keep records in the payments table, local users
+// in localStorage. A failed database write is reported, never kept locally instead,
+// so the two never disagree.
+
+import { Subscription, generateSubscriptionId, toDateInputValue } from './subscriptions'
+import { CurrencySettings, convertAmount } from './currency'
+import { addCycles, getOccurrences, getToday, toCalendarDay } from './recurrence'
+import { getCurrentWorkspace } from './workspaces'
+
+// Upper bound on renewals generated backwards from the stored renewal date
+const MAX_PAST_OCCURRENCES = 1000
+
+export type PaymentStatus = 'paid' | 'missed'
+
+// A recorded payment for one renewal of a subscription
+export interface Payment {
+  id: string
+  subscriptionId: string
+  // The renewal this payment is for
+  dueDate: Date
+  status: PaymentStatus
+  // Set when paid: what was actually charged (in currency) and when
+  amount?: number
+  currency: string
+  paidDate?: Date
+  method?: string
+}
+
+// Where an expected payment stands: recorded as paid or missed, not yet recorded
+// although it is due, or still to come
+export type LedgerState = PaymentStatus | 'unrecorded' | 'upcoming'
+
+export interface LedgerEntry {
+  subscription: Subscription
+  dueDate: Date
+  // Expected charge, in the subscription's currency
+  expectedAmount: number
+  payment?: Payment
+  state: LedgerState
+}
+
+export interface LedgerSummary {
+  // Expected charges for the whole period, and for the part of it up to today
+  expected: number
+  expectedToDate: number
+  // Recorded payments, in the home currency
+  paid: number
+  paidCount: number
+  missedCount: number
+  unrecordedCount: number
+}
+
+// Database payment type (matches Supabase schema)
+interface DatabasePayment {
+  id: string
+  subscription_id: string
+  workspace_id: string
+  recorded_by: string | null
+  due_date: string
+  status: PaymentStatus
+  amount: number | null
+  currency: string
+  paid_date: string | null
+  method: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+const fromDatabasePayment = (row: DatabasePayment): Payment => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  dueDate: new Date(row.due_date),
+  status: row.status,
+  amount: row.amount !== null ? Number(row.amount) : undefined,
+  currency: row.currency,
+  paidDate: row.paid_date ? new Date(row.paid_date) : undefined,
+  method: row.method || undefined
+})
+
+const isSameDay = (a: Date, b: Date): boolean => {
+  return toCalendarDay(a).getTime() === toCalendarDay(b).getTime()
+}
+
+// Renewal dates between from and to (inclusive) that are expected to be charged.
+// Active subscriptions renew before and after their stored renewal date; trials only
+// from their first paid renewal on; paused, cancelled and expired subscriptions only
+// renewed before it, and cancelled ones only until their service ended.
+export const getDueDates = (subscription: Subscription, from: Date, to: Date): Date[] => {
+  const fromDay = toCalendarDay(from)
+  const toDay = toCalendarDay(to)
+  const start = toCalendarDay(subscription.renewalDate)
+
+  const past: Date[] = []
+  if (subscription.status !== 'Trial') {
+    const end = subscription.activeUntil && subscription.activeUntil < start ? toCalendarDay(subscription.activeUntil) : start
+    for (let i = 1; i <= MAX_PAST_OCCURRENCES; i++) {
+      const occurrence = addCycles(start, subscription, -i)
+      if (occurrence < fromDay || occurrence.getTime() === start.getTime()) break
+      if (occurrence < end && occurrence <= toDay) {
+        past.unshift(occurrence)
+      }
+    }
+  }
+
+  const upcoming = subscription.status === 'Active' || subscription.status === 'Trial'
+    ? getOccurrences(subscription, fromDay, toDay)
+    : []
+
+  return [...past, ...upcoming]
+}
+
+// First and last day of the month containing the given day
+export const getMonthRange = (month: Date = getToday()): [Date, Date] => {
+  return [
+    new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1)),
+    new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0))
+  ]
+}
+
+// The charge expected at a renewal; trials are charged their post-trial cost
+export const getExpectedAmount = (subscription: Subscription): number => {
+  return subscription.status === 'Trial' && subscription.postTrialCost !== undefined
+    ? subscription.postTrialCost
+    : subscription.cost
+}
+
+// Expected payments between from and to, matched with what was recorded, by due date
+export const buildLedger = (subscriptions: Subscription[], payments: Payment[], from: Date, to: Date, today: Date = getToday()): LedgerEntry[] => {
+  const entries: LedgerEntry[] = []
+  subscriptions.forEach(sub => {
+    getDueDates(sub, from, to).forEach(dueDate => {
+      const payment = payments.find(p => p.subscriptionId === sub.id && isSameDay(p.dueDate, dueDate))
+      entries.push({
+        subscription: sub,
+        dueDate,
+        expectedAmount: getExpectedAmount(sub),
+        payment,
+        state: payment ? payment.status : dueDate <= today ? 'unrecorded' : 'upcoming'
+      })
+    })
+  })
+
+  return entries.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime() || a.subscription.name.localeCompare(b.subscription.name))
+}
+
+// Actual vs expected spend for ledger entries, in the home currency
+export const summarizeLedger = (entries: LedgerEntry[], currencySettings: CurrencySettings, today: Date = getToday()): LedgerSummary => {
+  const toHome = (amount: number, currency: string) => convertAmount(amount, currency, currencySettings.homeCurrency, currencySettings.exchangeRates)
+
+  return entries.reduce<LedgerSummary>((summary, entry) => {
+    const expected = toHome(entry.expectedAmount, entry.subscription.currency)
+    const paid = entry.payment?.status === 'paid' ? toHome(entry.payment.amount || 0, entry.payment.currency) : 0
+    return {
+      expected: summary.expected + expected,
+      expectedToDate: summary.expectedToDate + (entry.dueDate <= today ? expected : 0),
+      paid: summary.paid + paid,
+      paidCount: summary.paidCount + (entry.state === 'paid' ? 1 : 0),
+      missedCount: summary.missedCount + (entry.state === 'missed' ? 1 : 0),
+      unrecordedCount: summary.unrecordedCount + (entry.state === 'unrecorded' ? 1 : 0)
+    }
+  }, { expected: 0, expectedToDate: 0, paid: 0, paidCount: 0, missedCount: 0, unrecordedCount: 0 })
+}
+
+// A payment record for a ledger entry, paid in full on the due date unless details are given
+export const createPayment = (entry: LedgerEntry, status: PaymentStatus, details: { amount?: number; paidDate?: Date; method?: string } = {}): Payment => ({
+  id: entry.payment?.id || generateSubscriptionId(),
+  subscriptionId: entry.subscription.id,
+  dueDate: entry.dueDate,
+  status,
+  amount: status === 'paid' ? (details.amount !== undefined ? details.amount : entry.expectedAmount) : undefined,
+  currency: entry.subscription.currency,
+  paidDate: status === 'paid' ? details.paidDate || entry.dueDate : undefined,
+  method: status === 'paid' ? details.method?.trim() || undefined : undefined
+})
+
+// LocalStorage Utilities (for local auth fallback)
+const getStorageKey = (userKey: string): string => {
+  return `payments_${userKey}`
+}
+
+const loadPaymentsLocal = (userKey: string): Payment[] => {
+  const stored = localStorage.getItem(getStorageKey(userKey))
+  if (!stored) return []
+
+  try {
+    return JSON.parse(stored).map((payment: any) => ({
+      ...payment,
+      dueDate: new Date(payment.dueDate),
+      paidDate: payment.paidDate ? new Date(payment.paidDate) : undefined
+    }))
+  } catch {
+    return []
+  }
+}
+
+const savePaymentsLocal = (payments: Payment[], userKey: string): void => {
+  localStorage.setItem(getStorageKey(userKey), JSON.stringify(payments))
+}
+
+// Load the current workspace's payments due between from and to from Supabase database
+export const loadPaymentsFromDB = async (userId: string, from: Date, to: Date): Promise<Payment[] | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return null
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .gte('due_date', toDateInputValue(from))
+      .lte('due_date', toDateInputValue(to))
+
+    if (error) {
+      console.error('Error loading payments:', error)
+      return null
+    }
+
+    return (data || []).map(fromDatabasePayment)
+  } catch (err) {
+    console.error('Error loading payments from DB:', err)
+    return null
+  }
+}
+
+// Save a payment to Supabase database, replacing any earlier record for the same renewal
+export const savePaymentToDB = async (payment: Payment, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
+
+    const row: Omit<DatabasePayment, 'created_at' | 'updated_at'> = {
+      id: payment.id,
+      subscription_id: payment.subscriptionId,
+      workspace_id: workspace.id,
+      recorded_by: userId,
+      due_date: toDateInputValue(payment.dueDate),
+      status: payment.status,
+      amount: payment.amount !== undefined ? payment.amount : null,
+      currency: payment.currency,
+      paid_date: payment.paidDate ? toDateInputValue(payment.paidDate) : null,
+      method: payment.method || null
+    }
+
+    const { error } = await supabase
+      .from('payments')
+      .upsert(row, { onConflict: 'subscription_id,due_date' })
+
+    if (error) {
+      console.error('Error saving payment:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error saving payment to DB:', err)
+    return false
+  }
+}
+
+// Delete a payment record from Supabase database
+export const deletePaymentFromDB = async (payment: Payment, userId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('subscription_id', payment.subscriptionId)
+      .eq('due_date', toDateInputValue(payment.dueDate))
+
+    if (error) {
+      console.error('Error deleting payment:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error deleting payment from DB:', err)
+    return false
+  }
+}
+
+// Load payments due between from and to (from the database for Supabase users, localStorage for local auth)
+export const loadPayments = async (from: Date, to: Date, userKey: string, userId?: string): Promise<Payment[]> => {
+  if (typeof window === 'undefined') return []
+
+  if (userId) {
+    return (await loadPaymentsFromDB(userId, from, to)) || []
+  }
+
+  const fromDay = toCalendarDay(from)
+  const toDay = toCalendarDay(to)
+  return loadPaymentsLocal(userKey).filter(payment => payment.dueDate >= fromDay && payment.dueDate <= toDay)
+}
+
+// Record a payment (in the database for Supabase users, localStorage for local auth)
+export const savePayment = async (payment: Payment, userKey: string, userId?: string): Promise<{ success: boolean; error?: string }> => {
+  if (typeof window === 'undefined') return { success: false, error: 'Not available on server' }
+
+  if (userId) {
+    const success = await savePaymentToDB(payment, userId)
+    return success ? { success: true } : { success: false, error: 'Could not save the payment. Please try again.' }
+  }
+
+  const others = loadPaymentsLocal(userKey).filter(existing =>
+    !(existing.subscriptionId === payment.subscriptionId && isSameDay(existing.dueDate, payment.dueDate))
+  )
+  savePaymentsLocal([...others, payment], userKey)
+  return { success: true }
+}
+
+// Remove a payment record so the renewal is unrecorded again (in the database for Supabase users, localStorage for local auth)
+export const deletePayment = async (payment: Payment, userKey: string, userId?: string): Promise<{ success: boolean; error?: string }> => {
+  if (typeof window === 'undefined') return { success: false, error: 'Not available on server' }
+
+  if (userId) {
+    const success = await deletePaymentFromDB(payment, userId)
+    return success ? { success: true } : { success: false, error: 'Could not clear the payment. Please try again.' }
+  }
+
+  savePaymentsLocal(loadPaymentsLocal(userKey).filter(existing => existing.id !== payment.id), userKey)
+  return { success: true }
+}
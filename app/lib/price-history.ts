@@ -0,0 +1,236 @@
+// Price History Utilities
+//
+// Whenever the price a subscription bills at changes (its cost, currency or cycle),
+// the old and new prices are recorded. Supabase users' are recorded by the database
+// (the record_price_change trigger on subscriptions), in the same transaction as the
+// change; local users' in localStorage. Trials are priced
+// at their post-trial cost, so a trial converting to paid is not a price change.
+
+import { Subscription, Cycle, CustomInterval, IntervalUnit, generateSubscriptionId } from './subscriptions'
+import { CurrencySettings, convertAmount } from './currency'
+import { getRenewalsPerYear, getToday } from './recurrence'
+import { getMyShareFraction } from './splits'
+
+// How long a price rise stays flagged on the dashboard
+export const PRICE_HIKE_WINDOW_DAYS = 90
+
+export interface PricePoint {
+  cost: number
+  currency: string
+  cycle: Cycle
+  customInterval?: CustomInterval
+}
+
+export interface PriceChange {
+  id: string
+  subscriptionId: string
+  previous: PricePoint
+  current: PricePoint
+  changedAt: Date
+}
+
+export interface PriceHike {
+  subscription: Subscription
+  change: PriceChange
+  // Rise in the monthly cost, e.g. 20 for 20%
+  percentChange: number
+  // Extra cost over a year in the home currency (my share of split subscriptions)
+  annualImpact: number
+}
+
+// Database price change type (matches Supabase schema)
+interface DatabasePriceChange {
+  id: string
+  subscription_id: string
+  workspace_id: string
+  changed_by: string | null
+  old_cost: number
+  old_currency: string
+  old_cycle: Cycle
+  old_interval_count: number | null
+  old_interval_unit: IntervalUnit | null
+  new_cost: number
+  new_currency: string
+  new_cycle: Cycle
+  new_interval_count: number | null
+  new_interval_unit: IntervalUnit | null
+  changed_at: string
+}
+
+const toPricePoint = (cost: number, currency: string, cycle: Cycle, count: number | null, unit: IntervalUnit | null): PricePoint => ({
+  cost: Number(cost),
+  currency,
+  cycle,
+  customInterval: cycle === 'Custom' && count && unit ? { count, unit } : undefined
+})
+
+const fromDatabasePriceChange = (row: DatabasePriceChange): PriceChange => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  previous: toPricePoint(row.old_cost, row.old_currency, row.old_cycle, row.old_interval_count, row.old_interval_unit),
+  current: toPricePoint(row.new_cost, row.new_currency, row.new_cycle, row.new_interval_count, row.new_interval_unit),
+  changedAt: new Date(row.changed_at)
+})
+
+// The price a subscription bills at; trials use the price they convert to
+export const getPricePoint = (subscription: Subscription): PricePoint => ({
+  cost: subscription.status === 'Trial' && subscription.postTrialCost !== undefined ? subscription.postTrialCost : subscription.cost,
+  currency: subscription.currency,
+  cycle: subscription.cycle,
+  customInterval: subscription.cycle === 'Custom' ? subscription.customInterval : undefined
+})
+
+const isSamePrice = (a: PricePoint, b: PricePoint): boolean => {
+  return a.cost === b.cost
+    && a.currency === b.currency
+    && a.cycle === b.cycle
+    && a.customInterval?.count === b.customInterval?.count
+    && a.customInterval?.unit === b.customInterval?.unit
+}
+
+// The price change between two versions of a subscription, or null if its price is unchanged
+export const getPriceChange = (previous: Subscription, updated: Subscription): PriceChange | null => {
+  const before = getPricePoint(previous)
+  const after = getPricePoint(updated)
+  if (isSamePrice(before, after)) return null
+
+  return {
+    id: generateSubscriptionId(),
+    subscriptionId: updated.id,
+    previous: before,
+    current: after,
+    changedAt: new Date()
+  }
+}
+
+// A price normalised to one month, in its own currency
+export const getMonthlyPrice = (price: PricePoint): number => {
+  return price.cost * getRenewalsPerYear(price) / 12
+}
+
+// Rise (or fall) in monthly cost as a percentage; null when there was no previous cost
+// or the currency changed
+export const getPercentChange = (change: PriceChange): number | null => {
+  const before = getMonthlyPrice(change.previous)
+  if (!(before > 0) || change.previous.currency !== change.current.currency) return null
+  return (getMonthlyPrice(change.current) - before) / before * 100
+}
+
+// LocalStorage Utilities (for local auth fallback)
+const getStorageKey = (userKey: string): string => {
+  return `price_history_${userKey}`
+}
+
+const loadPriceChangesLocal = (userKey: string): PriceChange[] => {
+  const stored = localStorage.getItem(getStorageKey(userKey))
+  if (!stored) return []
+
+  try {
+    return JSON.parse(stored).map((change: any) => ({ ...change, changedAt: new Date(change.changedAt) }))
+  } catch {
+    return []
+  }
+}
+
+// Record a price change in localStorage (for local auth)
+export const savePriceChangeLocal = (change: PriceChange, userKey: string): void => {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(getStorageKey(userKey), JSON.stringify([...loadPriceChangesLocal(userKey), change]))
+}
+
+// Load price changes from Supabase database, oldest first, for one subscription or
+// for every subscription the user can see since a date
+const loadPriceChangesFromDB = async (filter: { subscriptionId?: string; since?: Date }): Promise<PriceChange[] | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    let query = supabase
+      .from('subscription_price_history')
+      .select('*')
+    if (filter.subscriptionId) {
+      query = query.eq('subscription_id', filter.subscriptionId)
+    }
+    if (filter.since) {
+      query = query.gte('changed_at', filter.since.toISOString())
+    }
+
+    const { data, error } = await query.order('changed_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading price history:', error)
+      return null
+    }
+
+    return (data || []).map(fromDatabasePriceChange)
+  } catch (err) {
+    console.error('Error loading price history from DB:', err)
+    return null
+  }
+}
+
+// Price changes of one subscription, oldest first
+export const loadPriceHistory = async (subscriptionId: string, userKey: string, userId?: string): Promise<PriceChange[]> => {
+  if (typeof window === 'undefined') return []
+
+  if (userId) {
+    const changes = await loadPriceChangesFromDB({ subscriptionId })
+    if (changes) return changes
+  }
+
+  return loadPriceChangesLocal(userKey).filter(change => change.subscriptionId === subscriptionId)
+}
+
+// Price changes of all subscriptions in the last PRICE_HIKE_WINDOW_DAYS days, oldest first
+export const loadRecentPriceChanges = async (userKey: string, userId?: string, today: Date = getToday()): Promise<PriceChange[]> => {
+  if (typeof window === 'undefined') return []
+
+  const since = new Date(today)
+  since.setUTCDate(today.getUTCDate() - PRICE_HIKE_WINDOW_DAYS)
+
+  if (userId) {
+    const changes = await loadPriceChangesFromDB({ since })
+    if (changes) return changes
+  }
+
+  return loadPriceChangesLocal(userKey).filter(change => change.changedAt >= since)
+}
+
+// Subscriptions whose latest price change was a rise, biggest yearly impact first.
+// Only subscriptions still being paid for (or about to be, for trials) are included.
+export const findPriceHikes = (subscriptions: Subscription[], changes: PriceChange[], currencySettings: CurrencySettings): PriceHike[] => {
+  const latest = new Map<string, PriceChange>()
+  changes.forEach(change => {
+    const existing = latest.get(change.subscriptionId)
+    if (!existing || change.changedAt >= existing.changedAt) {
+      latest.set(change.subscriptionId, change)
+    }
+  })
+
+  const toHome = (price: PricePoint) => convertAmount(getMonthlyPrice(price), price.currency, currencySettings.homeCurrency, currencySettings.exchangeRates)
+
+  const hikes: PriceHike[] = []
+  subscriptions
+    .filter(sub => sub.status === 'Active' || sub.status === 'Trial')
+    .forEach(sub => {
+      const change = latest.get(sub.id)
+      if (!change) return
+
+      const before = toHome(change.previous)
+      const monthlyIncrease = toHome(change.current) - before
+      if (!(monthlyIncrease > 0)) return
+
+      hikes.push({
+        subscription: sub,
+        change,
+        percentChange: before > 0 ? monthlyIncrease / before * 100 : 0,
+        annualImpact: monthlyIncrease * 12 * getMyShareFraction(sub)
+      })
+    })
+
+  return hikes.sort((a, b) => b.annualImpact - a.annualImpact)
+}
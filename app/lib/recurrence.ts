@@ -0,0 +1,146 @@
+// Renewal Recurrence Utilities
+//
+// Renewal dates are stored as calendar days (yyyy-mm-dd, parsed as UTC midnight),
+// so all date arithmetic here is done in UTC to avoid timezone drift.
+
+import { Subscription } from './subscriptions'
+
+// Upper bound on generated occurrences, guards against runaway loops
+const MAX_OCCURRENCES = 1000
+
+// Normalise a date to UTC midnight of the same calendar day
+export const toCalendarDay = (date: Date): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+// Today's local calendar day expressed as UTC midnight, comparable with renewal dates
+export const getToday = (): Date => {
+  const now = new Date()
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+}
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+// Add months, clamping to the last day of the target month (Jan 31 + 1 month = Feb 28/29)
+export const addMonthsClamped = (date: Date, months: number): Date => {
+  const totalMonths = date.getUTCFullYear() * 12 + date.getUTCMonth() + months
+  const year = Math.floor(totalMonths / 12)
+  const month = totalMonths - year * 12
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month))
+  return new Date(Date.UTC(year, month, day))
+}
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days))
+}
+
+// The parts of a subscription that determine when it renews
+export type RenewalSchedule = Pick<Subscription, 'cycle' | 'customInterval'>
+
+// Date of the nth renewal after the given date (n = 0 returns the date itself).
+// Always computed from the original date so month-end days do not drift.
+export const addCycles = (date: Date, schedule: RenewalSchedule, count: number = 1): Date => {
+  const start = toCalendarDay(date)
+  switch (schedule.cycle) {
+    case 'Weekly':
+      return addDays(start, count * 7)
+    case 'Monthly':
+      return addMonthsClamped(start, count)
+    case 'Quarterly':
+      return addMonthsClamped(start, count * 3)
+    case 'Semi-Annually':
+      return addMonthsClamped(start, count * 6)
+    case 'Annually':
+      return addMonthsClamped(start, count * 12)
+    case 'Custom': {
+      const interval = schedule.customInterval
+      if (!interval || interval.count < 1) return start
+      if (interval.unit === 'days') return addDays(start, count * interval.count)
+      if (interval.unit === 'weeks') return addDays(start, count * interval.count * 7)
+      return addMonthsClamped(start, count * interval.count)
+    }
+    default:
+      return start
+  }
+}
+
+// Number of renewals in a year, used to normalise costs between cycles
+export const getRenewalsPerYear = (schedule: RenewalSchedule): number => {
+  switch (schedule.cycle) {
+    case 'Weekly':
+      return 52
+    case 'Monthly':
+      return 12
+    case 'Quarterly':
+      return 4
+    case 'Semi-Annually':
+      return 2
+    case 'Annually':
+      return 1
+    case 'Custom': {
+      const interval = schedule.customInterval
+      if (!interval || interval.count < 1) return 0
+      if (interval.unit === 'days') return 365 / interval.count
+      if (interval.unit === 'weeks') return 52 / interval.count
+      return 12 / interval.count
+    }
+    default:
+      return 0
+  }
+}
+
+// Next renewal on or after the given day (defaults to today)
+export const getNextRenewalDate = (subscription: Subscription, from: Date = getToday()): Date => {
+  const fromDay = toCalendarDay(from)
+  const start = toCalendarDay(subscription.renewalDate)
+
+  let next = start
+  for (let i = 1; next < fromDay && i <= MAX_OCCURRENCES; i++) {
+    next = addCycles(start, subscription, i)
+    // A schedule that never advances (e.g. an incomplete custom interval) has no later renewal
+    if (next.getTime() === start.getTime()) break
+  }
+  return next
+}
+
+// All renewal dates between from and to (inclusive), starting at the stored renewal date
+export const getOccurrences = (subscription: Subscription, from: Date, to: Date): Date[] => {
+  const fromDay = toCalendarDay(from)
+  const toDay = toCalendarDay(to)
+  const start = toCalendarDay(subscription.renewalDate)
+  const occurrences: Date[] = []
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const occurrence = addCycles(start, subscription, i)
+    if (occurrence > toDay || (i > 0 && occurrence.getTime() === start.getTime())) break
+    if (occurrence >= fromDay) {
+      occurrences.push(occurrence)
+    }
+  }
+
+  return occurrences
+}
+
+// Advance renewal dates that have passed to the next upcoming renewal.
+// Paused, cancelled and expired subscriptions keep their last renewal date.
+// Returns the updated list and the subscriptions whose dates changed.
+export const rollForwardRenewals = (subscriptions: Subscription[], today: Date = getToday()): { subscriptions: Subscription[]; changed: Subscription[] } => {
+  const changed: Subscription[] = []
+
+  const updated = subscriptions.map(sub => {
+    if (sub.status !== 'Active' && sub.status !== 'Trial') {
+      return sub
+    }
+    const next = getNextRenewalDate(sub, today)
+    if (next.getTime() === toCalendarDay(sub.renewalDate).getTime()) {
+      return sub
+    }
+    const rolled = { ...sub, renewalDate: next }
+    changed.push(rolled)
+    return rolled
+  })
+
+  return { subscriptions: updated, changed }
+}
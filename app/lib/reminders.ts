@@ -0,0 +1,217 @@
+// Renewal Reminder Utilities (server-only)
+//
+// Finds renewals and trial endings that fall inside each user's notification timeframe, across
+// every workspace they belong to, emails them and records each (user, subscription, renewal date)
+// in reminder_deliveries so the same renewal is never emailed to them twice.
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { DatabaseSubscription, Subscription, fromDatabaseSubscription, formatDate, formatCycle } from './subscriptions'
+import { NotificationTimeframe, getTimeframeDays } from './notifications'
+import { getOccurrences, getToday, toCalendarDay } from './recurrence'
+import { findEndingTrials, convertEndedTrials } from './trials'
+import { formatCurrency, DEFAULT_CURRENCY } from './currency'
+import { BudgetSettings, BudgetStatus, findBudgetBreaches } from './budgets'
+import { EmailMessage, EmailTransport } from './email'
+import { escapeHtml } from './encoding'
+import { loadMemberWorkspaceIds } from './workspaces'
+
+export interface DueRenewal {
+  subscription: Subscription
+  renewalDate: Date
+  // The renewal is the end of a free trial, when the first paid charge happens
+  trialEnding: boolean
+}
+
+export interface ReminderRunResult {
+  usersChecked: number
+  emailsSent: number
+  remindersSent: number
+  errors: string[]
+}
+
+// Renewals of active subscriptions, and trials ending, between today and the end of the timeframe
+export const findDueRenewals = (subscriptions: Subscription[], timeframe: NotificationTimeframe, today: Date = getToday()): DueRenewal[] => {
+  const windowEnd = new Date(today)
+  windowEnd.setUTCDate(today.getUTCDate() + getTimeframeDays(timeframe))
+
+  const renewals = subscriptions
+    .filter(sub => sub.status === 'Active')
+    .flatMap(sub => getOccurrences(sub, today, windowEnd).map(renewalDate => ({ subscription: sub, renewalDate, trialEnding: false })))
+
+  // A trial's end date is also its first renewal date, so reminders are recorded against it
+  const trialEndings = findEndingTrials(subscriptions, getTimeframeDays(timeframe), today)
+    .map(sub => ({ subscription: sub, renewalDate: toCalendarDay(sub.trialEndDate!), trialEnding: true }))
+
+  return [...renewals, ...trialEndings]
+    .sort((a, b) => a.renewalDate.getTime() - b.renewalDate.getTime())
+}
+
+// Budget breaches are listed after the renewals when given, with amounts in budgetCurrency
+export const renderReminderEmail = (renewals: DueRenewal[], recipientName?: string, budgetBreaches: BudgetStatus[] = [], budgetCurrency: string = DEFAULT_CURRENCY): Omit<EmailMessage, 'to'> => {
+  const greeting = recipientName ? `Hi ${recipientName},` : 'Hi,'
+  const subject = renewals.length === 1
+    ? renewals[0].trialEnding
+      ? `Your ${renewals[0].subscription.name} trial ends on ${formatDate(renewals[0].renewalDate)}`
+      : `${renewals[0].subscription.name} renews on ${formatDate(renewals[0].renewalDate)}`
+    : `${renewals.length} subscriptions renew soon`
+
+  const renewalLines = renewals
+    .filter(renewal => !renewal.trialEnding)
+    .map(({ subscription, renewalDate }) =>
+      `${subscription.name}: ${formatCurrency(subscription.cost, subscription.currency)} on ${formatDate(renewalDate)}`
+    )
+
+  const trialLines = renewals
+    .filter(renewal => renewal.trialEnding)
+    .map(({ subscription, renewalDate }) => {
+      const price = subscription.postTrialCost !== undefined ? subscription.postTrialCost : subscription.cost
+      return `${subscription.name}: trial ends on ${formatDate(renewalDate)}, then ${formatCurrency(price, subscription.currency)} (${formatCycle(subscription)})`
+    })
+
+  const budgetLines = budgetBreaches.map(status =>
+    `${status.category || 'All subscriptions'}: ${formatCurrency(status.spent, budgetCurrency)} a month against a budget of ${formatCurrency(status.budget, budgetCurrency)}`
+  )
+
+  const sections = [
+    { heading: 'These subscriptions are renewing soon:', lines: renewalLines },
+    { heading: 'These free trials are ending soon. Cancel before the end date if you do not want to be charged:', lines: trialLines },
+    { heading: 'You are over budget:', lines: budgetLines },
+  ].filter(section => section.lines.length > 0)
+
+  const text = [
+    greeting,
+    '',
+    ...sections.flatMap(section => [section.heading, '', ...section.lines.map(line => `- ${line}`), '']),
+    'You are receiving this because renewal email alerts are enabled in your notification settings.',
+  ].join('\n')
+
+  const html = `
+    <p>${escapeHtml(greeting)}</p>
+    ${sections.map(section => `<p>${escapeHtml(section.heading)}</p>
+    <ul>
+      ${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('\n      ')}
+    </ul>`).join('\n    ')}
+    <p style="color:#6b7280;font-size:12px">You are receiving this because renewal email alerts are enabled in your notification settings.</p>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+// Reserve a renewal for this run. Returns false if it was already emailed.
+const claimDelivery = async (supabase: SupabaseClient, userId: string, renewal: DueRenewal, email: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('reminder_deliveries')
+    .upsert({
+      user_id: userId,
+      subscription_id: renewal.subscription.id,
+      renewal_date: renewal.renewalDate.toISOString().split('T')[0],
+      email,
+    }, { onConflict: 'user_id,subscription_id,renewal_date', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) {
+    throw new Error(`Error recording reminder delivery: ${error.message}`)
+  }
+
+  return !!data && data.length > 0
+}
+
+// Release claimed renewals when the email could not be sent, so the next run retries them
+const releaseDeliveries = async (supabase: SupabaseClient, userId: string, renewals: DueRenewal[]): Promise<void> => {
+  for (const renewal of renewals) {
+    await supabase
+      .from('reminder_deliveries')
+      .delete()
+      .eq('user_id', userId)
+      .eq('subscription_id', renewal.subscription.id)
+      .eq('renewal_date', renewal.renewalDate.toISOString().split('T')[0])
+  }
+}
+
+export const runRenewalReminders = async (supabase: SupabaseClient, transport: EmailTransport, today: Date = getToday()): Promise<ReminderRunResult> => {
+  const result: ReminderRunResult = { usersChecked: 0, emailsSent: 0, remindersSent: 0, errors: [] }
+
+  const { data: settingsRows, error: settingsError } = await supabase
+    .from('notification_settings')
+    .select('user_id, timeframe, budget_currency, monthly_budget, category_budgets, budget_alerts, budget_workspace_id, budget_exchange_rates')
+    .eq('email_enabled', true)
+
+  if (settingsError) {
+    result.errors.push(`Error loading notification settings: ${settingsError.message}`)
+    return result
+  }
+
+  for (const settings of settingsRows || []) {
+    const userId: string = settings.user_id
+    result.usersChecked++
+
+    try {
+      // Subscriptions in every workspace the user belongs to
+      const workspaceIds = await loadMemberWorkspaceIds(supabase, userId)
+      if (workspaceIds.length === 0) continue
+
+      const { data: rows, error: subscriptionsError } = await supabase
+        .from('subscriptions')
+        .select('*')
+        .in('workspace_id', workspaceIds)
+
+      if (subscriptionsError) {
+        throw new Error(`Error loading subscriptions: ${subscriptionsError.message}`)
+      }
+
+      // Trials that ended since the user last opened the app renew like any active subscription
+      const { subscriptions } = convertEndedTrials((rows || []).map((row: DatabaseSubscription) => fromDatabaseSubscription(row)), today)
+      const workspaceIdOf = new Map((rows || []).map((row: DatabaseSubscription) => [row.id, row.workspace_id]))
+      const dueRenewals = findDueRenewals(subscriptions, settings.timeframe as NotificationTimeframe, today)
+      if (dueRenewals.length === 0) continue
+
+      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(userId)
+      const email = userData?.user?.email
+      if (userError || !email) {
+        throw new Error('No email address on file')
+      }
+
+      const claimed: DueRenewal[] = []
+      for (const renewal of dueRenewals) {
+        if (await claimDelivery(supabase, userId, renewal, email)) {
+          claimed.push(renewal)
+        }
+      }
+      if (claimed.length === 0) continue
+
+      // Budgets count the subscriptions of the workspace they were set in, at the rates the
+      // user last saved, as on the dashboard. Budgets saved before either was stored are left out.
+      const budgets: BudgetSettings = {
+        currency: settings.budget_currency || DEFAULT_CURRENCY,
+        monthlyBudget: settings.monthly_budget !== null && settings.monthly_budget !== undefined ? Number(settings.monthly_budget) : null,
+        categoryBudgets: settings.category_budgets || {},
+        includeInReminders: settings.budget_alerts || false,
+        workspaceId: settings.budget_workspace_id || undefined,
+        exchangeRates: settings.budget_exchange_rates || undefined,
+      }
+      const budgetBreaches = budgets.includeInReminders && budgets.workspaceId && budgets.exchangeRates
+        ? findBudgetBreaches(
+          subscriptions.filter(sub => workspaceIdOf.get(sub.id) === budgets.workspaceId),
+          budgets,
+          { homeCurrency: budgets.currency, exchangeRates: budgets.exchangeRates }
+        )
+        : []
+
+      const recipientName = userData.user.user_metadata?.full_name || userData.user.user_metadata?.name
+      try {
+        await transport.send({ to: email, ...renderReminderEmail(claimed, recipientName, budgetBreaches, budgets.currency) })
+      } catch (err) {
+        await releaseDeliveries(supabase, userId, claimed)
+        throw err
+      }
+
+      result.emailsSent++
+      result.remindersSent += claimed.length
+    } catch (err: any) {
+      console.error(`Error sending reminders for user ${userId}:`, err)
+      result.errors.push(`${userId}: ${err.message || 'Unknown error'}`)
+    }
+  }
+
+  return result
+}
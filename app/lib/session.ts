@@ -0,0 +1,43 @@
+// Session Cookies
+//
+// Supabase sessions are kept in cookies by the browser client, so middleware.ts can read
+// them. Local auth users are kept in localStorage, which the server never sees; a marker
+// cookie tells the middleware one is signed in, and the dashboard still checks on the client.
+
+export const LOCAL_SESSION_COOKIE = 'local_session'
+
+// Pages that need a signed-in user
+export const isProtectedPath = (pathname: string): boolean => {
+  return pathname === '/dashboard' || pathname.startsWith('/dashboard/')
+}
+
+// Base for resolving redirect paths; only its origin matters
+const REDIRECT_BASE = 'http://localhost'
+
+// Where to go after signing in: a path on this site, never another origin. Browsers
+// treat a backslash like a slash (so /\evil.com is another host) and drop tabs and
+// newlines, so paths containing either are refused outright.
+export const getSafeRedirectPath = (next: string | null, fallback: string = '/dashboard'): string => {
+  if (!next || !next.startsWith('/') || next.startsWith('//')) return fallback
+
+  for (let i = 0; i < next.length; i++) {
+    const code = next.charCodeAt(i)
+    if (next[i] === '\\' || code < 0x20 || code === 0x7f) return fallback
+  }
+
+  try {
+    const url = new URL(next, REDIRECT_BASE)
+    if (url.origin !== REDIRECT_BASE) return fallback
+    return `${url.pathname}${url.search}${url.hash}`
+  } catch {
+    return fallback
+  }
+}
+
+export const setLocalSessionCookie = (signedIn: boolean): void => {
+  if (typeof document === 'undefined') return
+
+  document.cookie = signedIn
+    ? `${LOCAL_SESSION_COOKIE}=1; path=/; max-age=${60 * 60 * 24 * 365}; SameSite=Lax`
+    : `${LOCAL_SESSION_COOKIE}=; path=/; max-age=0; SameSite=Lax`
+}
@@ -0,0 +1,194 @@
+// Cost Splitting Utilities
+//
+// A subscription can be shared between me and other named people, equally, by
+// percentage or by fixed amounts per charge. One person pays the provider (me unless
+// paidBy is set) and everyone else owes them their share of each charge.
+
+import { Subscription, SubscriptionFormData } from './subscriptions'
+import { CurrencySettings, convertAmount } from './currency'
+import { getOccurrences, getToday } from './recurrence'
+
+export type SplitMethod = 'equal' | 'percentage' | 'fixed'
+
+export const SPLIT_METHODS: SplitMethod[] = ['equal', 'percentage', 'fixed']
+
+export const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: 'Equal shares',
+  percentage: 'Percentages',
+  fixed: 'Fixed amounts'
+}
+
+// How the current user appears in shares and settlements
+export const ME = 'You'
+
+export interface SplitParticipant {
+  name: string
+  // Percentage or fixed amount per charge; unused for equal splits
+  share: number
+}
+
+export interface CostSplit {
+  method: SplitMethod
+  // My own percentage or fixed amount; unused for equal splits
+  myShare: number
+  // Everyone else sharing the cost
+  participants: SplitParticipant[]
+  // Participant who pays the provider; unset when I do
+  paidBy?: string
+}
+
+export interface PersonSettlement {
+  name: string
+  // Their share of this month's charges
+  share: number
+  // What they paid providers this month
+  paid: number
+  // Positive when they are owed money, negative when they owe
+  balance: number
+}
+
+export interface SettlementTransfer {
+  from: string
+  to: string
+  amount: number
+}
+
+// Each person's share of one charge, me first
+export const getSplitShares = (cost: number, split: CostSplit): { name: string; amount: number }[] => {
+  const people = [{ name: ME, share: split.myShare }, ...split.participants]
+  return people.map(person => ({
+    name: person.name,
+    amount: split.method === 'equal'
+      ? cost / people.length
+      : split.method === 'percentage'
+        ? cost * person.share / 100
+        : person.share
+  }))
+}
+
+// Fraction of a subscription's cost that is mine; 1 when it is not split
+export const getMyShareFraction = (subscription: Subscription): number => {
+  if (!subscription.split || !(subscription.cost > 0)) return 1
+  return getSplitShares(subscription.cost, subscription.split)[0].amount / subscription.cost
+}
+
+// My share of one charge, in the subscription's currency
+export const getMyShare = (subscription: Subscription): number => {
+  return subscription.cost * getMyShareFraction(subscription)
+}
+
+// Validate a split against the cost of one charge, returning an error message or null
+export const validateSplit = (split: CostSplit, cost: number): string | null => {
+  if (split.participants.length === 0) {
+    return 'Add at least one other person to split with'
+  }
+
+  const names = split.participants.map(participant => participant.name.trim().toLowerCase())
+  if (names.some(name => !name)) {
+    return 'Every person needs a name'
+  }
+  if (names.includes(ME.toLowerCase()) || names.some((name, index) => names.indexOf(name) !== index)) {
+    return 'Names must be different from each other and from "You"'
+  }
+
+  if (split.paidBy && !split.participants.some(participant => participant.name === split.paidBy)) {
+    return 'Choose who pays from the people sharing it'
+  }
+
+  const shares = [split.myShare, ...split.participants.map(participant => participant.share)]
+  if (split.method !== 'equal' && shares.some(share => isNaN(share) || share < 0)) {
+    return 'Shares cannot be negative'
+  }
+
+  const total = shares.reduce((sum, share) => sum + share, 0)
+  if (split.method === 'percentage' && Math.abs(total - 100) > 0.01) {
+    return `Percentages must add up to 100 (currently ${Math.round(total * 100) / 100})`
+  }
+  if (split.method === 'fixed' && Math.abs(total - cost) > 0.01) {
+    return `Amounts must add up to the cost of ${cost} (currently ${Math.round(total * 100) / 100})`
+  }
+
+  return null
+}
+
+// Form fields for a split; empty when not split
+export const splitToFormData = (split?: CostSplit): Pick<SubscriptionFormData, 'splitMethod' | 'myShare' | 'splitParticipants' | 'paidBy'> => ({
+  splitMethod: split ? split.method : '',
+  myShare: split && split.method !== 'equal' ? split.myShare.toString() : '',
+  splitParticipants: split
+    ? split.participants.map(participant => ({
+      name: participant.name,
+      share: split.method !== 'equal' ? participant.share.toString() : ''
+    }))
+    : [],
+  paidBy: split?.paidBy || ''
+})
+
+// Build a split from form fields, or undefined when not split
+export const formDataToSplit = (formData: SubscriptionFormData): CostSplit | undefined => {
+  if (!formData.splitMethod) return undefined
+
+  const method = formData.splitMethod
+  const toShare = (value: string): number => (method === 'equal' ? 0 : parseFloat(value))
+  return {
+    method,
+    myShare: toShare(formData.myShare),
+    participants: formData.splitParticipants.map(participant => ({
+      name: participant.name.trim(),
+      share: toShare(participant.share)
+    })),
+    paidBy: formData.paidBy.trim() || undefined
+  }
+}
+
+// Who owes what for the split subscriptions charged in the given month, in the home currency.
+// Transfers are netted between each pair of people.
+export const calculateSettlement = (subscriptions: Subscription[], currencySettings: CurrencySettings, month: Date = getToday()): { people: PersonSettlement[]; transfers: SettlementTransfer[] } => {
+  const monthStart = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), 1))
+  const monthEnd = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0))
+
+  const people = new Map<string, PersonSettlement>()
+  const person = (name: string): PersonSettlement => {
+    if (!people.has(name)) {
+      people.set(name, { name, share: 0, paid: 0, balance: 0 })
+    }
+    return people.get(name)!
+  }
+  // Amount owed, keyed "from\u0000to"
+  const debts = new Map<string, number>()
+
+  subscriptions
+    .filter(sub => sub.status === 'Active' && sub.split)
+    .forEach(sub => {
+      const charges = getOccurrences(sub, monthStart, monthEnd).length
+      if (charges === 0) return
+
+      const convert = (amount: number) => convertAmount(amount * charges, sub.currency, currencySettings.homeCurrency, currencySettings.exchangeRates)
+      const payer = sub.split!.paidBy || ME
+      person(payer).paid += convert(sub.cost)
+
+      getSplitShares(sub.cost, sub.split!).forEach(({ name, amount }) => {
+        const share = convert(amount)
+        person(name).share += share
+        if (name !== payer) {
+          const key = `${name}\u0000${payer}`
+          debts.set(key, (debts.get(key) || 0) + share)
+        }
+      })
+    })
+
+  const transfers: SettlementTransfer[] = []
+  debts.forEach((amount, key) => {
+    const [from, to] = key.split('\u0000')
+    const net = amount - (debts.get(`${to}\u0000${from}`) || 0)
+    if (net > 0.005) {
+      transfers.push({ from, to, amount: net })
+    }
+  })
+
+  const summary = Array.from(people.values())
+    .map(entry => ({ ...entry, balance: entry.paid - entry.share }))
+    .sort((a, b) => (a.name === ME ? -1 : b.name === ME ? 1 : a.name.localeCompare(b.name)))
+
+  return { people: summary, transfers: transfers.sort((a, b) => b.amount - a.amount) }
+}
@@ -0,0 +1,322 @@
+// Bank Statement Import Utilities
+//
+// Finds subscriptions in bank or card statements (CSV or OFX). Charges are grouped by
+// merchant and amount, and groups that recur at a regular interval (weekly, monthly,
+// quarterly, semi-annually or annually) are proposed as subscriptions, with the cycle,
+// cost and next renewal date inferred from the charges.
+
+import { Subscription, Cycle, generateSubscriptionId } from './subscriptions'
+import { parseCsv } from './import-export'
+import { addCycles, getToday, toCalendarDay } from './recurrence'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Charges from the same merchant whose amounts differ by at most this fraction are
+// treated as the same subscription (covers small price changes and exchange rates)
+const AMOUNT_TOLERANCE = 0.15
+
+// Share of gaps between charges that must match the cycle for it to count as recurring
+const MIN_REGULARITY = 0.75
+
+// Expected gap between charges in days, how far a gap may stray from it, and how many
+// charges are needed before a cycle is proposed
+const CYCLE_PATTERNS: { cycle: Cycle; days: number; tolerance: number; minCharges: number }[] = [
+  { cycle: 'Weekly', days: 7, tolerance: 2, minCharges: 3 },
+  { cycle: 'Monthly', days: 30.4, tolerance: 5, minCharges: 3 },
+  { cycle: 'Quarterly', days: 91.3, tolerance: 10, minCharges: 2 },
+  { cycle: 'Semi-Annually', days: 182.6, tolerance: 15, minCharges: 2 },
+  { cycle: 'Annually', days: 365.2, tolerance: 20, minCharges: 2 }
+]
+
+// Words that describe how a card or account was charged rather than who charged it
+const NOISE_WORDS = ['pos', 'purchase', 'card', 'debit', 'credit', 'direct', 'dd', 'ach', 'payment', 'recurring', 'www', 'com', 'net', 'org', 'inc', 'ltd', 'llc', 'visa', 'mastercard', 'contactless', 'online', 'ref', 'to', 'the']
+
+// A charge from a statement; refunds and deposits are left out
+export interface StatementTransaction {
+  date: Date
+  description: string
+  // Positive amount charged
+  amount: number
+  currency?: string
+}
+
+// A proposed subscription and the charges it was inferred from
+export interface RecurringCandidate {
+  subscription: Subscription
+  merchant: string
+  transactions: StatementTransaction[]
+  lastCharged: Date
+  // Already tracked under the same name
+  duplicate: boolean
+  // The last charge is more than a cycle overdue, so it may have been cancelled
+  lapsed: boolean
+}
+
+// Find a column by any of its usual names, ignoring case, spaces and underscores
+const findColumn = (header: string[], names: string[]): number => {
+  const normalised = header.map(column => column.toLowerCase().replace(/[\s_]/g, ''))
+  for (const name of names) {
+    const index = normalised.indexOf(name)
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+// Amounts like "1,234.56", "(12.00)", "-£9.99" or "9,99" (decimal comma)
+const parseAmount = (value: string): number => {
+  let cleaned = value.trim().replace(/[^0-9.,()-]/g, '')
+  const negative = cleaned.startsWith('(') || cleaned.includes('-')
+  cleaned = cleaned.replace(/[()-]/g, '')
+  if (/,\d{2}$/.test(cleaned) && !/\.\d{2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.')
+  } else {
+    cleaned = cleaned.replace(/,/g, '')
+  }
+  const amount = parseFloat(cleaned)
+  return negative ? -amount : amount
+}
+
+// Whether slash or dash dates in the file put the day first (31/01/2024) or the month
+// first (01/31/2024); decided by whichever part ever exceeds 12, month first otherwise
+const detectDayFirst = (values: string[]): boolean => {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/)
+    if (!match) continue
+    if (Number(match[1]) > 12) return true
+    if (Number(match[2]) > 12) return false
+  }
+  return false
+}
+
+// Parse a statement date as a calendar day; null if it is not a date
+const parseStatementDate = (value: string, dayFirst: boolean): Date | null => {
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/)
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+  }
+
+  const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/)
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3])
+    const [day, month] = dayFirst ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]]
+    return new Date(Date.UTC(year, Number(month) - 1, Number(day)))
+  }
+
+  // Named months, e.g. "31 Jan 2024" or "Jan 31, 2024"
+  const parsed = new Date(`${trimmed} UTC`)
+  if (isNaN(parsed.getTime())) return null
+  return toCalendarDay(parsed)
+}
+
+// Parse a CSV statement with a header row. Needs a date, a description and either an
+// amount column (charges negative, or all positive on card statements) or separate
+// debit and credit columns.
+export const parseStatementCsv = (content: string): { transactions: StatementTransaction[]; error?: string } => {
+  const [header, ...rows] = parseCsv(content)
+  if (!header) {
+    return { transactions: [], error: 'File is empty' }
+  }
+
+  const dateColumn = findColumn(header, ['date', 'transactiondate', 'posteddate', 'postingdate', 'bookingdate', 'valuedate'])
+  const descriptionColumn = findColumn(header, ['description', 'payee', 'merchant', 'name', 'details', 'narrative', 'memo', 'transactiondescription'])
+  const amountColumn = findColumn(header, ['amount', 'transactionamount', 'value'])
+  const debitColumn = findColumn(header, ['debit', 'debitamount', 'withdrawal', 'withdrawals', 'paidout', 'moneyout'])
+  const currencyColumn = findColumn(header, ['currency', 'currencycode'])
+
+  if (dateColumn === -1 || descriptionColumn === -1 || (amountColumn === -1 && debitColumn === -1)) {
+    return { transactions: [], error: 'Could not find date, description and amount columns in the header row' }
+  }
+
+  const dayFirst = detectDayFirst(rows.map(cells => cells[dateColumn] || ''))
+  const amounts = amountColumn !== -1 ? rows.map(cells => parseAmount(cells[amountColumn] || '')) : []
+  // With a single amount column, charges are the negative amounts; card statements that
+  // only list charges show them as positive
+  const chargesAreNegative = amounts.some(amount => amount < 0)
+
+  const transactions: StatementTransaction[] = []
+  rows.forEach((cells, index) => {
+    const date = parseStatementDate(cells[dateColumn] || '', dayFirst)
+    const description = (cells[descriptionColumn] || '').trim()
+
+    let amount: number
+    if (debitColumn !== -1 && (cells[debitColumn] || '').trim() !== '') {
+      amount = Math.abs(parseAmount(cells[debitColumn]))
+    } else if (amountColumn !== -1) {
+      const value = amounts[index]
+      amount = chargesAreNegative ? -value : value
+    } else {
+      return
+    }
+
+    if (!date || !description || isNaN(amount) || amount <= 0) return
+    const currency = currencyColumn !== -1 ? (cells[currencyColumn] || '').trim().toUpperCase() : ''
+    transactions.push({ date, description, amount, currency: /^[A-Z]{3}$/.test(currency) ? currency : undefined })
+  })
+
+  return { transactions }
+}
+
+// Value of an OFX element, e.g. <TRNAMT>-9.99 (SGML, no closing tag) or <TRNAMT>-9.99</TRNAMT>
+const getOfxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? match[1].trim() : ''
+}
+
+// Parse an OFX/QFX statement; debits are the transactions with a negative amount
+export const parseStatementOfx = (content: string): { transactions: StatementTransaction[]; error?: string } => {
+  const blocks = content.split(/<STMTTRN>/i).slice(1)
+  if (blocks.length === 0) {
+    return { transactions: [], error: 'No transactions found in OFX file' }
+  }
+
+  const currency = getOfxValue(content, 'CURDEF').toUpperCase()
+
+  const transactions: StatementTransaction[] = []
+  blocks.forEach(block => {
+    const posted = getOfxValue(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/)
+    const amount = parseFloat(getOfxValue(block, 'TRNAMT'))
+    const description = getOfxValue(block, 'NAME') || getOfxValue(block, 'MEMO')
+    if (!posted || isNaN(amount) || amount >= 0 || !description) return
+
+    transactions.push({
+      date: new Date(Date.UTC(Number(posted[1]), Number(posted[2]) - 1, Number(posted[3]))),
+      description,
+      amount: -amount,
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : undefined
+    })
+  })
+
+  return { transactions }
+}
+
+// Parse a statement file, choosing the format from its extension or contents
+export const parseStatementFile = (content: string, fileName: string): { transactions: StatementTransaction[]; error?: string } => {
+  const lowerName = fileName.toLowerCase()
+  const isOfx = lowerName.endsWith('.ofx') || lowerName.endsWith('.qfx') || /<OFX>/i.test(content)
+  const result = isOfx ? parseStatementOfx(content) : parseStatementCsv(content)
+
+  if (!result.error && result.transactions.length === 0) {
+    return { transactions: [], error: 'No charges found in statement' }
+  }
+  return result
+}
+
+// Reduce a transaction description to the merchant, dropping card and reference noise:
+// "POS PURCHASE NETFLIX.COM 866-579-7172" becomes "netflix"
+export const getMerchantKey = (description: string): string => {
+  const words = description
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.includes(word))
+  return words.slice(0, 3).join(' ')
+}
+
+const toTitleCase = (value: string): string => {
+  return value.replace(/\b[a-z]/g, letter => letter.toUpperCase())
+}
+
+// Split one merchant's charges into groups of similar amounts
+const clusterByAmount = (transactions: StatementTransaction[]): StatementTransaction[][] => {
+  const clusters: StatementTransaction[][] = []
+  transactions
+    .slice()
+    .sort((a, b) => a.amount - b.amount)
+    .forEach(transaction => {
+      const current = clusters[clusters.length - 1]
+      const mean = current ? current.reduce((sum, t) => sum + t.amount, 0) / current.length : 0
+      if (current && Math.abs(transaction.amount - mean) <= mean * AMOUNT_TOLERANCE) {
+        current.push(transaction)
+      } else {
+        clusters.push([transaction])
+      }
+    })
+
+  return clusters.map(cluster => cluster.sort((a, b) => a.date.getTime() - b.date.getTime()))
+}
+
+// The cycle charges recur at, or null if the gaps between them are irregular
+export const detectCycle = (dates: Date[]): Cycle | null => {
+  const days = dates
+    .map(date => toCalendarDay(date).getTime())
+    .filter((time, index, all) => all.indexOf(time) === index)
+    .sort((a, b) => a - b)
+  if (days.length < 2) return null
+
+  const gaps = days.slice(1).map((time, index) => (time - days[index]) / DAY_MS)
+  const pattern = CYCLE_PATTERNS.find(candidate => {
+    if (days.length < candidate.minCharges) return false
+    const matching = gaps.filter(gap => Math.abs(gap - candidate.days) <= candidate.tolerance).length
+    return matching / gaps.length >= MIN_REGULARITY
+  })
+
+  return pattern ? pattern.cycle : null
+}
+
+// Propose subscriptions for charges that recur at a regular interval, most recently
+// charged first. Amounts are the latest charge; the next renewal is the first one due
+// on or after today. Candidates named like an existing subscription are marked duplicate.
+export const findRecurringCharges = (
+  transactions: StatementTransaction[],
+  existing: Subscription[],
+  defaults: { currency: string; category: string },
+  today: Date = getToday()
+): RecurringCandidate[] => {
+  const byMerchant = new Map<string, StatementTransaction[]>()
+  transactions.forEach(transaction => {
+    const key = getMerchantKey(transaction.description)
+    if (!key) return
+    byMerchant.set(key, [...(byMerchant.get(key) || []), transaction])
+  })
+
+  const existingNames = existing.map(sub => sub.name.trim().toLowerCase())
+  const candidates: RecurringCandidate[] = []
+
+  byMerchant.forEach((merchantTransactions, merchant) => {
+    // Separate subscriptions with the same merchant by amount; if none of them recur,
+    // try all of the merchant's charges together in case the price changed
+    const recurring = clusterByAmount(merchantTransactions)
+      .map(cluster => ({ cluster, cycle: detectCycle(cluster.map(transaction => transaction.date)) }))
+      .filter(group => group.cycle)
+    if (recurring.length === 0) {
+      const all = merchantTransactions.slice().sort((a, b) => a.date.getTime() - b.date.getTime())
+      recurring.push({ cluster: all, cycle: detectCycle(all.map(transaction => transaction.date)) })
+    }
+
+    recurring.forEach(({ cluster, cycle }) => {
+      if (!cycle) return
+
+      const latest = cluster[cluster.length - 1]
+      const lastCharged = toCalendarDay(latest.date)
+      let renewalDate = addCycles(lastCharged, { cycle })
+      const lapsed = addCycles(renewalDate, { cycle }) < today
+      for (let i = 2; renewalDate < today; i++) {
+        renewalDate = addCycles(lastCharged, { cycle }, i)
+      }
+
+      const name = toTitleCase(merchant)
+      const nameKey = name.toLowerCase()
+      candidates.push({
+        subscription: {
+          id: generateSubscriptionId(),
+          name,
+          cost: Math.round(latest.amount * 100) / 100,
+          currency: latest.currency || defaults.currency,
+          renewalDate,
+          cycle,
+          status: 'Active',
+          category: defaults.category
+        },
+        merchant,
+        transactions: cluster,
+        lastCharged,
+        duplicate: existingNames.some(existingName => existingName === nameKey || existingName.includes(nameKey) || nameKey.includes(existingName)),
+        lapsed
+      })
+    })
+  })
+
+  return candidates.sort((a, b) => b.lastCharged.getTime() - a.lastCharged.getTime())
+}
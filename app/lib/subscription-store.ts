@@ -0,0 +1,126 @@
+// Live Subscription Store
+//
+// Keeps every mounted page's subscriptions current without waiting for window focus.
+// Changes made in another tab reach this one over a BroadcastChannel (the only signal
+// local auth users have); changes made on other devices or by other workspace members
+// arrive as Postgres change events on the subscriptions table. Either way the list is
+// reloaded once (bursts of events are coalesced) and handed to every page watching it.
+
+import { Subscription, loadSubscriptions } from './subscriptions'
+import { getStoredWorkspace } from './workspaces'
+
+// Wait for a burst of changes (e.g. an import) to settle before reloading
+const RELOAD_DELAY_MS = 300
+
+interface Watch {
+  userKey: string
+  userId?: string
+  listeners: Set<(subscriptions: Subscription[]) => void>
+  broadcast?: BroadcastChannel
+  supabase?: any
+  channel?: any
+  reloadTimer?: ReturnType<typeof setTimeout>
+  stopped: boolean
+}
+
+// One watch per user, shared by all of the pages mounted in this tab
+const watches = new Map<string, Watch>()
+
+const getChannelName = (userKey: string): string => {
+  return `subscriptions_${userKey}`
+}
+
+const scheduleReload = (watch: Watch): void => {
+  if (watch.reloadTimer) clearTimeout(watch.reloadTimer)
+  watch.reloadTimer = setTimeout(async () => {
+    const subscriptions = await loadSubscriptions(watch.userKey, watch.userId)
+    if (!watch.stopped) {
+      watch.listeners.forEach(listener => listener(subscriptions))
+    }
+  }, RELOAD_DELAY_MS)
+}
+
+const startWatch = (userKey: string, userId?: string): Watch => {
+  const watch: Watch = { userKey, userId, listeners: new Set(), stopped: false }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    watch.broadcast = new BroadcastChannel(getChannelName(userKey))
+    watch.broadcast.onmessage = () => scheduleReload(watch)
+  }
+
+  if (userId) {
+    const subscribe = async () => {
+      // Lazy load Supabase only on client
+      const supabaseModule = await import('./supabase-client').catch(() => null)
+      if (!supabaseModule || watch.stopped) return
+      const supabase = await supabaseModule.getSupabaseClient()
+      if (watch.stopped) return
+
+      // Row level security limits events to workspaces the user belongs to; only the
+      // workspace being viewed matters (deletes carry no workspace, so always reload)
+      watch.supabase = supabase
+      watch.channel = supabase
+        .channel(`subscriptions-${userId}`)
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'subscriptions' }, (payload: any) => {
+          const workspaceId = payload.new?.workspace_id || payload.old?.workspace_id
+          const current = getStoredWorkspace(userId)
+          if (workspaceId && current && workspaceId !== current.id) return
+          scheduleReload(watch)
+        })
+        .subscribe()
+    }
+    subscribe().catch(err => console.error('Error listening for subscription changes:', err))
+  }
+
+  return watch
+}
+
+const stopWatch = (watch: Watch): void => {
+  watch.stopped = true
+  if (watch.reloadTimer) clearTimeout(watch.reloadTimer)
+  if (watch.broadcast) watch.broadcast.close()
+  if (watch.supabase && watch.channel) watch.supabase.removeChannel(watch.channel)
+}
+
+// Call listener with the reloaded subscriptions whenever they change in this tab,
+// another tab or another device. Returns a function that stops watching.
+export const watchSubscriptions = (userKey: string, userId: string | undefined, listener: (subscriptions: Subscription[]) => void): (() => void) => {
+  if (typeof window === 'undefined') return () => {}
+
+  let watch = watches.get(userKey)
+  if (!watch) {
+    watch = startWatch(userKey, userId)
+    watches.set(userKey, watch)
+  }
+  const current = watch
+  current.listeners.add(listener)
+
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0) {
+      stopWatch(current)
+      watches.delete(userKey)
+    }
+  }
+}
+
+// Tell the pages in this tab, and other open tabs, that the user's subscriptions changed
+export const notifySubscriptionsChanged = (userKey: string): void => {
+  if (typeof window === 'undefined') return
+
+  const watch = watches.get(userKey)
+  if (watch) {
+    scheduleReload(watch)
+  }
+
+  if (typeof BroadcastChannel === 'undefined') return
+  // A channel does not receive its own messages, so other tabs hear this but this tab
+  // (already reloading above) does not hear it twice
+  if (watch?.broadcast) {
+    watch.broadcast.postMessage({ changedAt: Date.now() })
+  } else {
+    const channel = new BroadcastChannel(getChannelName(userKey))
+    channel.postMessage({ changedAt: Date.now() })
+    channel.close()
+  }
+}
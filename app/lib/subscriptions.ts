@@ -1,77 +1,183 @@
 // Subscription Data Model & Utilities
 
-export type Cycle = 'Monthly' | 'Annually'
-export type Status = 'Active' | 'Trial'
-export type Category = 'Software' | 'Shopping' | 'Design' | 'Storage' | 'Entertainment'
+import { getOccurrences, getToday, getRenewalsPerYear, getNextRenewalDate, rollForwardRenewals } from './recurrence'
+import { convertAmount, CurrencySettings, DEFAULT_CURRENCY } from './currency'
+import { convertEndedTrials } from './trials'
+import { getCurrentWorkspace, canEditWorkspace } from './workspaces'
+import { CostSplit, SplitMethod, getMyShareFraction, splitToFormData, formDataToSplit, validateSplit } from './splits'
+import { getPriceChange, savePriceChangeLocal } from './price-history'
+import { queueSubscriptionChange, queueSubscriptionList, flushMutations, cacheSubscriptions, loadCachedSubscriptions, applyPendingMutations } from './sync'
+import { notifySubscriptionsChanged } from './subscription-store'
+
+export type Cycle = 'Weekly' | 'Monthly' | 'Quarterly' | 'Semi-Annually' | 'Annually' | 'Custom'
+export type IntervalUnit = 'days' | 'weeks' | 'months'
+export type Status = 'Active' | 'Trial' | 'Paused' | 'Cancelled' | 'Expired'
+// Name of one of the workspace's categories (see categories.ts)
+export type Category = string
+
+export const CYCLES: Cycle[] = ['Weekly', 'Monthly', 'Quarterly', 'Semi-Annually', 'Annually', 'Custom']
+export const STATUSES: Status[] = ['Active', 'Trial', 'Paused', 'Cancelled', 'Expired']
+export const INTERVAL_UNITS: IntervalUnit[] = ['days', 'weeks', 'months']
+
+// "Every N days/weeks/months" interval, used when cycle is 'Custom'
+export interface CustomInterval {
+  count: number
+  unit: IntervalUnit
+}
 
 export interface Subscription {
   id: string
   name: string
   cost: number
+  currency: string
   renewalDate: Date
   cycle: Cycle
+  customInterval?: CustomInterval
   status: Status
   category: Category
+  // Free trial details, set while status is 'Trial'. The trial converts to a paid
+  // subscription at postTrialCost on trialEndDate; the details are kept after that so
+  // recently converted trials can be flagged (see findConvertedTrials), until the user
+  // keeps or cancels the subscription.
+  trialStartDate?: Date
+  trialEndDate?: Date
+  postTrialCost?: number
+  // Set when status is 'Cancelled' (and kept once it has 'Expired'): when it was
+  // cancelled and the last day of service already paid for
+  cancellationDate?: Date
+  activeUntil?: Date
+  // Set when the cost is shared with other people (see splits.ts)
+  split?: CostSplit
+  // Card or account it is paid with (see payment-methods.ts)
+  paymentMethodId?: string
+  // The database row's updated_at when it was loaded, used to detect conflicting
+  // edits (Supabase users only, see sync.ts)
+  updatedAt?: string
 }
 
 // Database subscription type (matches Supabase schema)
-interface DatabaseSubscription {
+export interface DatabaseSubscription {
   id: string
+  // The member who added the subscription
   user_id: string
+  workspace_id: string
   name: string
   cost: number
+  currency: string
   renewal_date: string
   cycle: Cycle
+  interval_count: number | null
+  interval_unit: IntervalUnit | null
   status: Status
   category: Category
+  trial_start_date: string | null
+  trial_end_date: string | null
+  post_trial_cost: number | null
+  cancellation_date: string | null
+  active_until: string | null
+  split: CostSplit | null
+  payment_method_id: string | null
   created_at?: string
   updated_at?: string
 }
 
+// Map a database row to a Subscription
+export const fromDatabaseSubscription = (sub: DatabaseSubscription): Subscription => ({
+  id: sub.id,
+  name: sub.name,
+  cost: Number(sub.cost),
+  currency: sub.currency || DEFAULT_CURRENCY,
+  renewalDate: new Date(sub.renewal_date),
+  cycle: sub.cycle,
+  customInterval: sub.cycle === 'Custom' && sub.interval_count && sub.interval_unit
+    ? { count: sub.interval_count, unit: sub.interval_unit }
+    : undefined,
+  status: sub.status,
+  category: sub.category,
+  trialStartDate: sub.trial_start_date ? new Date(sub.trial_start_date) : undefined,
+  trialEndDate: sub.trial_end_date ? new Date(sub.trial_end_date) : undefined,
+  postTrialCost: sub.post_trial_cost !== null && sub.post_trial_cost !== undefined ? Number(sub.post_trial_cost) : undefined,
+  cancellationDate: sub.cancellation_date ? new Date(sub.cancellation_date) : undefined,
+  activeUntil: sub.active_until ? new Date(sub.active_until) : undefined,
+  split: sub.split || undefined,
+  paymentMethodId: sub.payment_method_id || undefined,
+  updatedAt: sub.updated_at
+})
+
+// Map a Subscription to the database columns it owns (everything except id, ownership and timestamps)
+export const toDatabaseSubscription = (sub: Subscription): Omit<DatabaseSubscription, 'id' | 'user_id' | 'workspace_id' | 'created_at' | 'updated_at'> => ({
+  name: sub.name,
+  cost: sub.cost,
+  currency: sub.currency,
+  renewal_date: sub.renewalDate.toISOString().split('T')[0],
+  cycle: sub.cycle,
+  interval_count: sub.cycle === 'Custom' && sub.customInterval ? sub.customInterval.count : null,
+  interval_unit: sub.cycle === 'Custom' && sub.customInterval ? sub.customInterval.unit : null,
+  status: sub.status,
+  category: sub.category,
+  trial_start_date: sub.trialStartDate ? sub.trialStartDate.toISOString().split('T')[0] : null,
+  trial_end_date: sub.trialEndDate ? sub.trialEndDate.toISOString().split('T')[0] : null,
+  post_trial_cost: sub.postTrialCost !== undefined ? sub.postTrialCost : null,
+  cancellation_date: sub.cancellationDate ? sub.cancellationDate.toISOString().split('T')[0] : null,
+  active_until: sub.activeUntil ? sub.activeUntil.toISOString().split('T')[0] : null,
+  split: sub.split || null,
+  payment_method_id: sub.paymentMethodId || null
+})
+
+// Restore Date fields on a subscription read back from JSON storage
+const parseStoredSubscription = (sub: any): Subscription => ({
+  ...sub,
+  renewalDate: new Date(sub.renewalDate),
+  trialStartDate: sub.trialStartDate ? new Date(sub.trialStartDate) : undefined,
+  trialEndDate: sub.trialEndDate ? new Date(sub.trialEndDate) : undefined,
+  cancellationDate: sub.cancellationDate ? new Date(sub.cancellationDate) : undefined,
+  activeUntil: sub.activeUntil ? new Date(sub.activeUntil) : undefined
+})
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
 // LocalStorage Utilities (for local auth fallback)
 const getStorageKey = (username: string): string => {
   return `subscriptions_${username}`
 }
 
-// Load subscriptions from Supabase database
-export const loadSubscriptionsFromDB = async (userId: string): Promise<Subscription[]> => {
+// Load the current workspace's subscriptions from Supabase database; null if the database could not be reached
+export const loadSubscriptionsFromDB = async (userId: string): Promise<Subscription[] | null> => {
   try {
-    if (typeof window === 'undefined') return []
+    if (typeof window === 'undefined') return null
     
     // Lazy load Supabase only on client
     const supabaseModule = await import('./supabase-client').catch(() => null)
-    if (!supabaseModule) return []
+    if (!supabaseModule) return null
     const supabase = await supabaseModule.getSupabaseClient()
+
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return null
     
     const { data, error } = await supabase
       .from('subscriptions')
       .select('*')
-      .eq('user_id', userId)
+      .eq('workspace_id', workspace.id)
       .order('renewal_date', { ascending: true })
     
     if (error) {
       console.error('Error loading subscriptions:', error)
-      return []
+      return null
     }
     
-    if (!data) return []
-    
-    return data.map((sub: DatabaseSubscription) => ({
-      id: sub.id,
-      name: sub.name,
-      cost: Number(sub.cost),
-      renewalDate: new Date(sub.renewal_date),
-      cycle: sub.cycle,
-      status: sub.status,
-      category: sub.category
-    }))
+    const subscriptions: Subscription[] = (data || []).map(fromDatabaseSubscription)
+    await cacheSubscriptions(workspace.id, subscriptions)
+    return subscriptions
   } catch (err) {
     console.error('Error loading subscriptions from DB:', err)
-    return []
+    return null
   }
 }
 
-// Save subscriptions to Supabase database
+// Save the current workspace's subscriptions to Supabase database in one transaction
+// (see save_workspace_subscriptions() in supabase-schema.sql). Subscriptions missing from
+// the list are deleted, changed ones updated and new ones inserted; existing rows keep
+// their IDs and timestamps, and nothing is changed if any part fails.
 export const saveSubscriptionsToDB = async (subscriptions: Subscription[], userId: string): Promise<boolean> => {
   try {
     if (typeof window === 'undefined') return false
@@ -80,138 +186,29 @@ export const saveSubscriptionsToDB = async (subscriptions: Subscription[], userI
     const supabaseModule = await import('./supabase-client').catch(() => null)
     if (!supabaseModule) return false
     const supabase = await supabaseModule.getSupabaseClient()
-    
-    // Delete all existing subscriptions for this user
-    const { error: deleteError } = await supabase
-      .from('subscriptions')
-      .delete()
-      .eq('user_id', userId)
-    
-    if (deleteError) {
-      console.error('Error deleting old subscriptions:', deleteError)
-      return false
-    }
-    
-    // Insert new subscriptions
-    if (subscriptions.length > 0) {
-      const dbSubscriptions: Omit<DatabaseSubscription, 'id' | 'created_at' | 'updated_at'>[] = subscriptions.map(sub => ({
-        user_id: userId,
-        name: sub.name,
-        cost: sub.cost,
-        renewal_date: sub.renewalDate.toISOString().split('T')[0],
-        cycle: sub.cycle,
-        status: sub.status,
-        category: sub.category
-      }))
-      
-      const { error: insertError } = await supabase
-        .from('subscriptions')
-        .insert(dbSubscriptions)
-      
-      if (insertError) {
-        console.error('Error saving subscriptions:', insertError)
-        return false
-      }
-    }
-    
-    return true
-  } catch (err) {
-    console.error('Error saving subscriptions to DB:', err)
-    return false
-  }
-}
 
-// Save a single subscription (for add/update operations)
-export const saveSubscriptionToDB = async (subscription: Subscription, userId: string): Promise<boolean> => {
-  try {
-    if (typeof window === 'undefined') return false
-    
-    // Lazy load Supabase only on client
-    const supabaseModule = await import('./supabase-client').catch(() => null)
-    if (!supabaseModule) return false
-    const supabase = await supabaseModule.getSupabaseClient()
-    
-    const dbSubscription: Omit<DatabaseSubscription, 'created_at' | 'updated_at'> = {
-      id: subscription.id,
-      user_id: userId,
-      name: subscription.name,
-      cost: subscription.cost,
-      renewal_date: subscription.renewalDate.toISOString().split('T')[0],
-      cycle: subscription.cycle,
-      status: subscription.status,
-      category: subscription.category
-    }
-    
-    // Check if subscription exists
-    const { data: existing } = await supabase
-      .from('subscriptions')
-      .select('id')
-      .eq('id', subscription.id)
-      .eq('user_id', userId)
-      .single()
-    
-    if (existing) {
-      // Update existing
-      const { error } = await supabase
-        .from('subscriptions')
-        .update({
-          name: dbSubscription.name,
-          cost: dbSubscription.cost,
-          renewal_date: dbSubscription.renewal_date,
-          cycle: dbSubscription.cycle,
-          status: dbSubscription.status,
-          category: dbSubscription.category
-        })
-        .eq('id', subscription.id)
-        .eq('user_id', userId)
-      
-      if (error) {
-        console.error('Error updating subscription:', error)
-        return false
-      }
-    } else {
-      // Insert new
-      const { error } = await supabase
-        .from('subscriptions')
-        .insert(dbSubscription)
-      
-      if (error) {
-        console.error('Error inserting subscription:', error)
-        return false
-      }
-    }
+    const workspace = await getCurrentWorkspace(userId)
+    if (!workspace) return false
     
-    return true
-  } catch (err) {
-    console.error('Error saving subscription to DB:', err)
-    return false
-  }
-}
-
-// Delete subscription from database
-export const deleteSubscriptionFromDB = async (subscriptionId: string, userId: string): Promise<boolean> => {
-  try {
-    if (typeof window === 'undefined') return false
-    
-    // Lazy load Supabase only on client
-    const supabaseModule = await import('./supabase-client').catch(() => null)
-    if (!supabaseModule) return false
-    const supabase = await supabaseModule.getSupabaseClient()
+    // IDs from before subscriptions had UUIDs are replaced by the database
+    const rows = subscriptions.map(sub => ({
+      id: UUID_PATTERN.test(sub.id) ? sub.id : null,
+      ...toDatabaseSubscription(sub)
+    }))
     
-    const { error } = await supabase
-      .from('subscriptions')
-      .delete()
-      .eq('id', subscriptionId)
-      .eq('user_id', userId)
+    const { error } = await supabase.rpc('save_workspace_subscriptions', {
+      target_workspace_id: workspace.id,
+      subscription_rows: rows
+    })
     
     if (error) {
-      console.error('Error deleting subscription:', error)
+      console.error('Error saving subscriptions:', error)
       return false
     }
     
     return true
   } catch (err) {
-    console.error('Error deleting subscription from DB:', err)
+    console.error('Error saving subscriptions to DB:', err)
     return false
   }
 }
@@ -247,31 +244,61 @@ export const migrateSubscriptionsToDB = async (userId: string, username: string)
   }
 }
 
-// Main load function - tries DB first, falls back to localStorage
+// Main load function - tries DB first, falls back to localStorage.
+// Trials that have ended become active, cancelled subscriptions past their
+// active-until date expire, renewal dates that have passed are advanced to the
+// next renewal, and all of these are saved back (unless the user can only view the
+// workspace, in which case they are only shown).
 export const loadSubscriptions = async (userKey: string, userId?: string): Promise<Subscription[]> => {
   if (typeof window === 'undefined') return []
-  
-  // If we have a userId, try loading from database
-  if (userId) {
-    try {
-      const dbSubs = await loadSubscriptionsFromDB(userId)
-      if (dbSubs.length > 0 || localStorage.getItem(`migrated_to_db_${userId}`)) {
-        return dbSubs
-      }
-      // If no DB data but we have local data, migrate it
-      const localSubs = loadSubscriptionsLocal(userKey)
-      if (localSubs.length > 0) {
-        await migrateSubscriptionsToDB(userId, userKey)
-        return await loadSubscriptionsFromDB(userId)
+
+  const loaded = await loadStoredSubscriptions(userKey, userId)
+  const converted = convertEndedTrials(loaded)
+  const expired = expireCancelledSubscriptions(converted.subscriptions)
+  const rolled = rollForwardRenewals(expired.subscriptions)
+  const subscriptions = rolled.subscriptions
+  const changedIds = new Set([...converted.changed, ...expired.changed, ...rolled.changed].map(sub => sub.id))
+  const changed = subscriptions.filter(sub => changedIds.has(sub.id))
+
+  if (changed.length > 0) {
+    if (userId) {
+      if (!canEditWorkspace(await getCurrentWorkspace(userId))) {
+        return subscriptions
       }
-      return dbSubs
-    } catch (err) {
-      console.error('Error loading from DB, falling back to localStorage:', err)
+      await queueSubscriptionList(subscriptions, userId)
+    } else {
+      saveSubscriptionsLocal(subscriptions, userKey)
     }
   }
+
+  return subscriptions
+}
+
+// Load subscriptions as stored, without rolling renewal dates forward. Supabase users
+// first send any changes made offline, then read the database, or the copy cached
+// from it when offline; changes still waiting to be sent are shown on top.
+const loadStoredSubscriptions = async (userKey: string, userId?: string): Promise<Subscription[]> => {
+  if (typeof window === 'undefined') return []
   
-  // Fall back to localStorage (for local auth users)
-  return loadSubscriptionsLocal(userKey)
+  // Local auth users keep their subscriptions in localStorage
+  if (!userId) {
+    return loadSubscriptionsLocal(userKey)
+  }
+
+  await flushMutations(userId)
+
+  let dbSubs = await loadSubscriptionsFromDB(userId)
+  if (dbSubs && dbSubs.length === 0 && !localStorage.getItem(`migrated_to_db_${userId}`)) {
+    // If no DB data but we have local data, migrate it
+    const localSubs = loadSubscriptionsLocal(userKey)
+    if (localSubs.length > 0) {
+      await migrateSubscriptionsToDB(userId, userKey)
+      dbSubs = await loadSubscriptionsFromDB(userId)
+    }
+  }
+
+  const synced = dbSubs || await loadCachedSubscriptions(userId) || []
+  return applyPendingMutations(synced, userId)
 }
 
 // Load from localStorage (for local auth)
@@ -284,8 +311,8 @@ const loadSubscriptionsLocal = (username: string): Subscription[] => {
   try {
     const parsed = JSON.parse(stored)
     return parsed.map((sub: any) => ({
-      ...sub,
-      renewalDate: new Date(sub.renewalDate),
+      ...parseStoredSubscription(sub),
+      currency: sub.currency || DEFAULT_CURRENCY,
       category: sub.category || 'Software'
     }))
   } catch {
@@ -293,73 +320,404 @@ const loadSubscriptionsLocal = (username: string): Subscription[] => {
   }
 }
 
-// Main save function - tries DB first, falls back to localStorage
+// Main save function - queues the changes for the database for Supabase users (see
+// sync.ts), localStorage for local auth
 export const saveSubscriptions = async (subscriptions: Subscription[], userKey: string, userId?: string): Promise<void> => {
   if (typeof window === 'undefined') return
   
-  // If we have a userId, save to database
   if (userId) {
-    const success = await saveSubscriptionsToDB(subscriptions, userId)
-    if (success) {
-      return
-    }
-    // If DB save fails, fall back to localStorage
-    console.warn('Failed to save to DB, falling back to localStorage')
+    await queueSubscriptionList(subscriptions, userId)
+  } else {
+    saveSubscriptionsLocal(subscriptions, userKey)
   }
-  
-  // Fall back to localStorage (for local auth users)
-  saveSubscriptionsLocal(subscriptions, userKey)
+  notifySubscriptionsChanged(userKey)
 }
 
 // Save to localStorage (for local auth)
 const saveSubscriptionsLocal = (subscriptions: Subscription[], username: string): void => {
-  const serialized = subscriptions.map(sub => ({
-    ...sub,
-    renewalDate: sub.renewalDate.toISOString()
-  }))
-  localStorage.setItem(getStorageKey(username), JSON.stringify(serialized))
+  localStorage.setItem(getStorageKey(username), JSON.stringify(subscriptions))
+}
+
+// Save a single subscription - queued for the database for Supabase users, localStorage for local auth
+export const saveSubscription = async (subscription: Subscription, subscriptions: Subscription[], userKey: string, userId?: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  if (userId) {
+    await queueSubscriptionChange({ type: 'upsert', subscription }, userId)
+  } else {
+    const previous = subscriptions.find(sub => sub.id === subscription.id)
+    const priceChange = previous ? getPriceChange(previous, subscription) : null
+    if (priceChange) {
+      savePriceChangeLocal(priceChange, userKey)
+    }
+    const updatedSubscriptions = previous
+      ? subscriptions.map(sub => (sub.id === subscription.id ? subscription : sub))
+      : [...subscriptions, subscription]
+    saveSubscriptionsLocal(updatedSubscriptions, userKey)
+  }
+  notifySubscriptionsChanged(userKey)
+}
+
+// Delete a single subscription - queued for the database for Supabase users, localStorage for local auth
+export const deleteSubscription = async (subscriptionId: string, subscriptions: Subscription[], userKey: string, userId?: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  if (userId) {
+    await queueSubscriptionChange({ type: 'delete', subscriptionId }, userId)
+  } else {
+    saveSubscriptionsLocal(subscriptions.filter(sub => sub.id !== subscriptionId), userKey)
+  }
+  notifySubscriptionsChanged(userKey)
+}
+
+// Move subscriptions from one category name to another, e.g. after a category is renamed
+export const renameSubscriptionCategory = async (oldName: Category, newName: Category, subscriptions: Subscription[], userKey: string, userId?: string): Promise<Subscription[]> => {
+  const updatedSubscriptions = subscriptions.map(sub => (sub.category === oldName ? { ...sub, category: newName } : sub))
+  if (typeof window === 'undefined' || oldName === newName) return updatedSubscriptions
+
+  // Saved together, so either every subscription moves to the new category or none does
+  await saveSubscriptions(updatedSubscriptions, userKey, userId)
+  return updatedSubscriptions
 }
 
-// Calculate Total Monthly Cost
-export const calculateTotalMonthlyCost = (subscriptions: Subscription[]): number => {
+// Generate an ID that is valid both as a Supabase UUID and a localStorage key
+export const generateSubscriptionId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0
+    const v = c === 'x' ? r : (r & 0x3 | 0x8)
+    return v.toString(16)
+  })
+}
+
+// Recently deleted subscription, kept in sessionStorage so the list can offer undo
+const LAST_DELETED_KEY = 'lastDeletedSubscription'
+
+export const rememberDeletedSubscription = (subscription: Subscription): void => {
+  if (typeof window === 'undefined') return
+  sessionStorage.setItem(LAST_DELETED_KEY, JSON.stringify(subscription))
+}
+
+export const takeDeletedSubscription = (): Subscription | null => {
+  if (typeof window === 'undefined') return null
+
+  const stored = sessionStorage.getItem(LAST_DELETED_KEY)
+  if (!stored) return null
+  sessionStorage.removeItem(LAST_DELETED_KEY)
+
+  try {
+    return parseStoredSubscription(JSON.parse(stored))
+  } catch {
+    return null
+  }
+}
+
+// Form values shared by the add and edit screens
+export interface SubscriptionFormData {
+  name: string
+  cost: string
+  currency: string
+  renewalDate: string
+  cycle: Cycle
+  intervalCount: string
+  intervalUnit: IntervalUnit
+  status: Status
+  category: Category
+  trialStartDate: string
+  trialEndDate: string
+  postTrialCost: string
+  cancellationDate: string
+  activeUntil: string
+  // '' when the cost is not split
+  splitMethod: SplitMethod | ''
+  myShare: string
+  splitParticipants: { name: string; share: string }[]
+  // '' when I pay
+  paidBy: string
+  // '' when no payment method is set
+  paymentMethodId: string
+}
+
+// Convert a date to the yyyy-mm-dd value used by date inputs
+export const toDateInputValue = (date: Date): string => {
+  return date.toISOString().split('T')[0]
+}
+
+export const subscriptionToFormData = (subscription: Subscription): SubscriptionFormData => ({
+  name: subscription.name,
+  cost: subscription.cost.toString(),
+  currency: subscription.currency,
+  renewalDate: toDateInputValue(subscription.renewalDate),
+  cycle: subscription.cycle,
+  intervalCount: subscription.customInterval ? subscription.customInterval.count.toString() : '1',
+  intervalUnit: subscription.customInterval ? subscription.customInterval.unit : 'months',
+  status: subscription.status,
+  category: subscription.category,
+  trialStartDate: subscription.trialStartDate ? toDateInputValue(subscription.trialStartDate) : '',
+  trialEndDate: subscription.trialEndDate ? toDateInputValue(subscription.trialEndDate) : '',
+  postTrialCost: subscription.postTrialCost !== undefined ? subscription.postTrialCost.toString() : '',
+  cancellationDate: subscription.cancellationDate ? toDateInputValue(subscription.cancellationDate) : '',
+  activeUntil: subscription.activeUntil ? toDateInputValue(subscription.activeUntil) : '',
+  ...splitToFormData(subscription.split),
+  paymentMethodId: subscription.paymentMethodId || ''
+})
+
+// Validate subscription form values, returning a map of field -> error message.
+// An unchanged renewal date is accepted when editing, even if it is in the past.
+// Trials renew when the trial ends, so their end date is checked in place of the renewal date.
+// Subscriptions that no longer renew only need a valid date.
+export const validateSubscriptionForm = (formData: SubscriptionFormData, previousRenewalDate?: string): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const isTrial = formData.status === 'Trial'
+  const renews = formData.status === 'Active' || isTrial
+
+  if (!formData.name.trim()) {
+    errors.name = 'Name is required'
+  }
+
+  if (!formData.category.trim()) {
+    errors.category = 'Category is required'
+  }
+
+  // Trials are often free, so a zero trial cost is allowed
+  const cost = parseFloat(formData.cost)
+  if (!formData.cost || isNaN(cost) || cost < 0 || (!isTrial && cost === 0)) {
+    errors.cost = 'Cost must be a positive number'
+  }
+
+  if (isTrial) {
+    const postTrialCost = parseFloat(formData.postTrialCost)
+    if (!formData.postTrialCost || isNaN(postTrialCost) || postTrialCost <= 0) {
+      errors.postTrialCost = 'Price after the trial must be a positive number'
+    }
+
+    if (formData.trialStartDate && formData.trialEndDate && formData.trialStartDate > formData.trialEndDate) {
+      errors.trialStartDate = 'Trial must start before it ends'
+    }
+  }
+
+  if (formData.status === 'Cancelled') {
+    if (!formData.cancellationDate || isNaN(new Date(formData.cancellationDate).getTime())) {
+      errors.cancellationDate = 'Cancellation date is required'
+    }
+    if (!formData.activeUntil || isNaN(new Date(formData.activeUntil).getTime())) {
+      errors.activeUntil = 'Active until date is required'
+    } else if (formData.cancellationDate && formData.activeUntil < formData.cancellationDate) {
+      errors.activeUntil = 'Active until date cannot be before the cancellation date'
+    }
+  }
+
+  // Fixed split amounts cover one charge, which for a trial is the price after it
+  const split = formDataToSplit(formData)
+  if (split) {
+    const splitError = validateSplit(split, isTrial ? parseFloat(formData.postTrialCost) : cost)
+    if (splitError) {
+      errors.split = splitError
+    }
+  }
+
+  if (formData.cycle === 'Custom') {
+    const intervalCount = Number(formData.intervalCount)
+    if (!Number.isInteger(intervalCount) || intervalCount < 1) {
+      errors.intervalCount = 'Interval must be a whole number of at least 1'
+    }
+  }
+
+  const dateField = isTrial ? 'trialEndDate' : 'renewalDate'
+  const dateLabel = isTrial ? 'Trial end date' : 'Renewal date'
+  const dateValue = formData[dateField]
+  if (!dateValue) {
+    errors[dateField] = `${dateLabel} is required`
+  } else if (dateValue !== previousRenewalDate) {
+    const selectedDate = new Date(dateValue)
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    selectedDate.setHours(0, 0, 0, 0)
+
+    if (isNaN(selectedDate.getTime())) {
+      errors[dateField] = `${dateLabel} is invalid`
+    } else if (renews && selectedDate <= today) {
+      errors[dateField] = `${dateLabel} must be in the future`
+    }
+  }
+
+  return errors
+}
+
+// Build a subscription from validated form values.
+// A trial's first renewal is the day its trial ends.
+export const formDataToSubscription = (formData: SubscriptionFormData, id: string): Subscription => {
+  const isTrial = formData.status === 'Trial'
+  const hasCancellation = formData.status === 'Cancelled' || formData.status === 'Expired'
+  return {
+    id,
+    name: formData.name.trim(),
+    cost: parseFloat(formData.cost),
+    currency: formData.currency,
+    renewalDate: new Date(isTrial ? formData.trialEndDate : formData.renewalDate),
+    cycle: formData.cycle,
+    customInterval: formData.cycle === 'Custom'
+      ? { count: Number(formData.intervalCount), unit: formData.intervalUnit }
+      : undefined,
+    status: formData.status,
+    category: formData.category,
+    trialStartDate: isTrial && formData.trialStartDate ? new Date(formData.trialStartDate) : undefined,
+    trialEndDate: isTrial ? new Date(formData.trialEndDate) : undefined,
+    postTrialCost: isTrial ? parseFloat(formData.postTrialCost) : undefined,
+    cancellationDate: hasCancellation && formData.cancellationDate ? new Date(formData.cancellationDate) : undefined,
+    activeUntil: hasCancellation && formData.activeUntil ? new Date(formData.activeUntil) : undefined,
+    split: formDataToSplit(formData),
+    paymentMethodId: formData.paymentMethodId || undefined
+  }
+}
+
+// Whether a subscription still renews (and so has upcoming charges)
+export const isRenewing = (subscription: Subscription): boolean => {
+  return subscription.status === 'Active' || subscription.status === 'Trial'
+}
+
+// Cancel a subscription, keeping it for history. Service continues until the
+// trial ends or, for paid subscriptions, until the next renewal would have happened.
+export const cancelSubscription = (subscription: Subscription, today: Date = getToday()): Subscription => ({
+  ...subscription,
+  status: 'Cancelled',
+  cancellationDate: today,
+  activeUntil: subscription.status === 'Trial' && subscription.trialEndDate
+    ? subscription.trialEndDate
+    : getNextRenewalDate(subscription, today)
+})
+
+// Expire cancelled subscriptions whose active-until date has passed.
+// Returns the updated list and the subscriptions that expired.
+export const expireCancelledSubscriptions = (subscriptions: Subscription[], today: Date = getToday()): { subscriptions: Subscription[]; changed: Subscription[] } => {
+  const changed: Subscription[] = []
+
+  const updated = subscriptions.map(sub => {
+    if (sub.status !== 'Cancelled' || !sub.activeUntil || sub.activeUntil >= today) {
+      return sub
+    }
+    const expired: Subscription = { ...sub, status: 'Expired' }
+    changed.push(expired)
+    return expired
+  })
+
+  return { subscriptions: updated, changed }
+}
+
+// Cost of a subscription normalised to one month, whatever its cycle
+export const getMonthlyCost = (subscription: Subscription): number => {
+  return subscription.cost * getRenewalsPerYear(subscription) / 12
+}
+
+// Cost of a subscription in the home currency; unconverted when no settings are given
+export const convertSubscriptionCost = (cost: number, subscription: Subscription, currencySettings?: CurrencySettings): number => {
+  if (!currencySettings) return cost
+  return convertAmount(cost, subscription.currency, currencySettings.homeCurrency, currencySettings.exchangeRates)
+}
+
+// My share of a subscription's monthly cost; the full cost when it is not split
+export const getMyMonthlyCost = (subscription: Subscription): number => {
+  return getMonthlyCost(subscription) * getMyShareFraction(subscription)
+}
+
+// Calculate Total Monthly Cost, converted into the home currency when settings are given.
+// With myShareOnly, split subscriptions only count the user's own share.
+export const calculateTotalMonthlyCost = (subscriptions: Subscription[], currencySettings?: CurrencySettings, myShareOnly: boolean = false): number => {
   const activeSubs = subscriptions.filter(sub => sub.status === 'Active')
   return activeSubs.reduce((total, sub) => {
-    if (sub.cycle === 'Monthly') {
-      return total + sub.cost
-    } else {
-      return total + (sub.cost / 12)
-    }
+    const monthlyCost = myShareOnly ? getMyMonthlyCost(sub) : getMonthlyCost(sub)
+    return total + convertSubscriptionCost(monthlyCost, sub, currencySettings)
   }, 0)
 }
 
+// Monthly spend per category, highest first
+export const calculateSpendByCategory = (subscriptions: Subscription[], currencySettings?: CurrencySettings, myShareOnly: boolean = false): { category: Category; monthlyCost: number }[] => {
+  const totals = new Map<Category, number>()
+  subscriptions
+    .filter(sub => sub.status === 'Active')
+    .forEach(sub => {
+      const monthlyCost = convertSubscriptionCost(myShareOnly ? getMyMonthlyCost(sub) : getMonthlyCost(sub), sub, currencySettings)
+      totals.set(sub.category, (totals.get(sub.category) || 0) + monthlyCost)
+    })
+
+  return Array.from(totals.entries())
+    .map(([category, monthlyCost]) => ({ category, monthlyCost }))
+    .sort((a, b) => b.monthlyCost - a.monthlyCost)
+}
+
+// Monthly spend per billing cycle (e.g. monthly vs annual plans), highest first
+export const calculateSpendByCycle = (subscriptions: Subscription[], currencySettings?: CurrencySettings): { cycle: Cycle; monthlyCost: number; count: number }[] => {
+  const totals = new Map<Cycle, { monthlyCost: number; count: number }>()
+  subscriptions
+    .filter(sub => sub.status === 'Active')
+    .forEach(sub => {
+      const current = totals.get(sub.cycle) || { monthlyCost: 0, count: 0 }
+      totals.set(sub.cycle, {
+        monthlyCost: current.monthlyCost + convertSubscriptionCost(getMonthlyCost(sub), sub, currencySettings),
+        count: current.count + 1
+      })
+    })
+
+  return Array.from(totals.entries())
+    .map(([cycle, total]) => ({ cycle, ...total }))
+    .sort((a, b) => b.monthlyCost - a.monthlyCost)
+}
+
+// Projected charges for each of the next N months, built from actual renewal dates
+export const projectMonthlySpend = (subscriptions: Subscription[], months: number = 12, currencySettings?: CurrencySettings, from: Date = getToday()): { month: Date; amount: number }[] => {
+  const activeSubs = subscriptions.filter(sub => sub.status === 'Active')
+  const projection: { month: Date; amount: number }[] = []
+
+  for (let i = 0; i < months; i++) {
+    const monthStart = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + i, 1))
+    const monthEnd = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + i + 1, 0))
+    // The current month only counts renewals still to come
+    const windowStart = i === 0 ? from : monthStart
+
+    const amount = activeSubs.reduce((total, sub) => {
+      const renewals = getOccurrences(sub, windowStart, monthEnd).length
+      return total + convertSubscriptionCost(sub.cost * renewals, sub, currencySettings)
+    }, 0)
+
+    projection.push({ month: monthStart, amount })
+  }
+
+  return projection
+}
+
+// Most expensive active subscriptions by monthly cost
+export const getTopSubscriptions = (subscriptions: Subscription[], count: number = 5, currencySettings?: CurrencySettings): { subscription: Subscription; monthlyCost: number }[] => {
+  return subscriptions
+    .filter(sub => sub.status === 'Active')
+    .map(sub => ({ subscription: sub, monthlyCost: convertSubscriptionCost(getMonthlyCost(sub), sub, currencySettings) }))
+    .sort((a, b) => b.monthlyCost - a.monthlyCost)
+    .slice(0, count)
+}
+
+// Human-readable cycle, e.g. "Every 2 weeks" for custom intervals
+export const formatCycle = (subscription: Pick<Subscription, 'cycle' | 'customInterval'>): string => {
+  if (subscription.cycle !== 'Custom' || !subscription.customInterval) {
+    return subscription.cycle
+  }
+  const { count, unit } = subscription.customInterval
+  return count === 1 ? `Every ${unit.slice(0, -1)}` : `Every ${count} ${unit}`
+}
+
 // Find Upcoming Renewals (within 7 days)
 export const findUpcomingRenewals = (subscriptions: Subscription[]): Subscription[] => {
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-  
+  const today = getToday()
+
   const sevenDaysFromNow = new Date(today)
-  sevenDaysFromNow.setDate(today.getDate() + 7)
+  sevenDaysFromNow.setUTCDate(today.getUTCDate() + 7)
 
   const activeSubs = subscriptions.filter(sub => sub.status === 'Active')
-  const upcomingRenewals = activeSubs
-    .map(sub => {
-      const renewalDate = new Date(sub.renewalDate)
-      renewalDate.setHours(0, 0, 0, 0)
-      return {
-        ...sub,
-        renewalDateNormalized: renewalDate
-      }
-    })
-    .filter(sub => {
-      return sub.renewalDateNormalized >= today && sub.renewalDateNormalized <= sevenDaysFromNow
-    })
-    .sort((a, b) => a.renewalDateNormalized.getTime() - b.renewalDateNormalized.getTime())
-    .map(sub => {
-      const { renewalDateNormalized, ...rest } = sub
-      return rest
-    })
-
-  return upcomingRenewals
+  return activeSubs
+    .map(sub => ({ sub, occurrences: getOccurrences(sub, today, sevenDaysFromNow) }))
+    .filter(({ occurrences }) => occurrences.length > 0)
+    .sort((a, b) => a.occurrences[0].getTime() - b.occurrences[0].getTime())
+    .map(({ sub, occurrences }) => ({ ...sub, renewalDate: occurrences[0] }))
 }
 
 // Count renewals this week
@@ -372,7 +730,8 @@ export const formatDate = (date: Date): string => {
   return new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
     month: 'short',
-    day: 'numeric'
+    day: 'numeric',
+    timeZone: 'UTC'
   }).format(date)
 }
 
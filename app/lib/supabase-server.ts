@@ -0,0 +1,76 @@
+import { createServerClient } from '@supabase/ssr'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { CurrentUser, fromSupabaseUser } from './auth'
+import { DatabaseSubscription, Subscription, fromDatabaseSubscription, expireCancelledSubscriptions } from './subscriptions'
+import { convertEndedTrials } from './trials'
+import { rollForwardRenewals } from './recurrence'
+
+// Server-only Supabase client acting as the signed-in user, from the session cookies
+// (kept fresh by middleware.ts). Row Level Security applies as it does in the browser.
+// Use it from server components, route handlers and server actions; null if Supabase
+// is not configured.
+export function getSupabaseServerClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    console.error('Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY')
+    return null
+  }
+
+  const cookieStore = cookies()
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {
+          // Server components cannot set cookies; the middleware refreshes the session instead
+        }
+      },
+    },
+  })
+}
+
+// The signed-in Supabase user, or null. Local auth users are only known to the browser.
+export const getServerUser = async (): Promise<CurrentUser | null> => {
+  const supabase = getSupabaseServerClient()
+  if (!supabase) return null
+
+  // getUser() checks the token with Supabase Auth; getSession() would trust the cookie as is
+  const { data: { user }, error } = await supabase.auth.getUser()
+  if (error || !user) return null
+
+  return fromSupabaseUser(user)
+}
+
+// The signed-in user's subscriptions, from one workspace or every workspace they belong
+// to, as the dashboard shows them: ended trials converted, cancelled subscriptions
+// expired and renewal dates rolled forward (without saving any of it)
+export const getServerSubscriptions = async (workspaceId?: string): Promise<Subscription[]> => {
+  const supabase = getSupabaseServerClient()
+  if (!supabase) return []
+
+  let query = supabase
+    .from('subscriptions')
+    .select('*')
+    .order('renewal_date', { ascending: true })
+  if (workspaceId) {
+    query = query.eq('workspace_id', workspaceId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('Error loading subscriptions:', error)
+    return []
+  }
+
+  const loaded = (data || []).map((row: DatabaseSubscription) => fromDatabaseSubscription(row))
+  const converted = convertEndedTrials(loaded)
+  const expired = expireCancelledSubscriptions(converted.subscriptions)
+  return rollForwardRenewals(expired.subscriptions).subscriptions
+}
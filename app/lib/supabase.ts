@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { createBrowserClient } from '@supabase/ssr'
 
 // Client-side only Supabase client
 let supabaseClient: SupabaseClient | null = null
@@ -13,32 +14,17 @@ export function getSupabaseClient(): SupabaseClient {
     )
   }
 
-  // Client-side: create singleton instance
+  // Client-side: create singleton instance. The session is kept in cookies rather than
+  // localStorage so that middleware.ts and server components can read it.
   if (!supabaseClient) {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
     const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
 
     if (!supabaseUrl || !supabaseAnonKey) {
       // Return placeholder client if env vars are missing
-      supabaseClient = createClient(
-        'https://placeholder.supabase.co',
-        'placeholder-key',
-        {
-          auth: {
-            persistSession: true,
-            autoRefreshToken: true,
-            detectSessionInUrl: true,
-          },
-        }
-      )
+      supabaseClient = createBrowserClient('https://placeholder.supabase.co', 'placeholder-key')
     } else {
-      supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
-        auth: {
-          persistSession: true,
-          autoRefreshToken: true,
-          detectSessionInUrl: true,
-        },
-      })
+      supabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey)
     }
   }
 
@@ -0,0 +1,641 @@
+// Offline Sync Utilities
+//
+// Supabase users' subscription changes are not written to the database directly.
+// They are queued in IndexedDB and replayed in order, immediately when online and
+// again when connectivity returns, so edits made offline are never lost or silently
+// kept apart in localStorage. The last copy of each workspace's subscriptions loaded
+// from the database is cached alongside, for reading while offline.
+//
+// Every replayed write is conditional on the row's updated_at still matching the
+// version this device last synced. If another member (or device) changed or deleted
+// the subscription in the meantime, the change is held back as a conflict until the
+// user keeps their version or the one in the database.
+//
+// Changes to several subscriptions at once (saving a whole list, e.g. renaming a
+// category) are queued together and written in one transaction through
+// save_workspace_subscriptions(), so they are saved all or not at all. If any of them
+// conflicts, they are replayed one by one instead so each can be resolved on its own.
+
+import { Subscription, DatabaseSubscription, fromDatabaseSubscription, toDatabaseSubscription } from './subscriptions'
+import { getCurrentWorkspace } from './workspaces'
+import { notifySubscriptionsChanged } from './subscription-store'
+
+const DB_NAME = 'subscription-sync'
+const DB_VERSION = 1
+const CACHE_STORE = 'subscriptions'
+const QUEUE_STORE = 'mutations'
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error'
+
+// Why a queued change could not be applied: the subscription was changed or deleted in
+// the database since it was last synced, or the database refused the change
+export type ConflictReason = 'changed' | 'deleted' | 'rejected'
+
+export interface SyncConflict {
+  reason: ConflictReason
+  // The subscription as it is now in the database, when it still exists
+  server?: Subscription
+  message?: string
+}
+
+// A change to one subscription
+export interface SubscriptionChange {
+  type: 'upsert' | 'delete'
+  subscriptionId: string
+  // The new version, for upserts
+  subscription?: Subscription
+  // The version last synced from the database, or null for a new subscription
+  base: Subscription | null
+}
+
+// A change to one subscription, or to several saved together ('list'), waiting to be
+// written to the database
+export interface PendingMutation {
+  seq?: number
+  userId: string
+  workspaceId: string
+  type: SubscriptionChange['type'] | 'list'
+  // Empty for lists
+  subscriptionId: string
+  subscription?: Subscription
+  // Null for lists, whose changes each have their own
+  base: Subscription | null
+  // The changes saved together, for lists
+  changes?: SubscriptionChange[]
+  queuedAt: Date
+  // Set when replaying found a conflict; conflicted changes wait for the user (lists
+  // never conflict, they are split up first)
+  conflict?: SyncConflict
+}
+
+export interface SyncStatus {
+  state: SyncState
+  // Changes still to be written, including conflicts
+  pending: number
+  conflicts: PendingMutation[]
+  lastSyncedAt?: Date
+}
+
+interface CachedWorkspace {
+  workspaceId: string
+  subscriptions: Subscription[]
+  syncedAt: Date
+}
+
+let status: SyncStatus = { state: 'synced', pending: 0, conflicts: [] }
+const listeners = new Set<(status: SyncStatus) => void>()
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes): changes are
+// still queued, but only for the lifetime of the page
+let memoryQueue: PendingMutation[] = []
+let memorySeq = 0
+const memoryCache = new Map<string, CachedWorkspace>()
+
+// Queue reads and writes (and replays) run one at a time so they never interleave
+let queueLock: Promise<unknown> = Promise.resolve()
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queueLock.then(task)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+// IndexedDB Utilities
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(CACHE_STORE, { keyPath: 'workspaceId' })
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error('Error opening offline store:', request.error)
+        resolve(null)
+      }
+    })
+  }
+  return databasePromise
+}
+
+// Run a single request against an object store; null if IndexedDB is unavailable or the request failed
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | null> => {
+  const db = await openDatabase()
+  if (!db) return null
+
+  return new Promise(resolve => {
+    try {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => {
+        console.error(`Error accessing offline ${storeName}:`, request.error)
+        resolve(null)
+      }
+    } catch (err) {
+      console.error(`Error accessing offline ${storeName}:`, err)
+      resolve(null)
+    }
+  })
+}
+
+const readQueue = async (): Promise<PendingMutation[]> => {
+  const stored = await runRequest<PendingMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll())
+  return stored || memoryQueue
+}
+
+// Store a mutation, returning its sequence number
+const putMutation = async (mutation: PendingMutation): Promise<number> => {
+  const seq = await runRequest<number>(QUEUE_STORE, 'readwrite', store => store.put(mutation))
+  if (seq !== null) return seq
+
+  const withSeq = { ...mutation, seq: mutation.seq ?? ++memorySeq }
+  memoryQueue = [...memoryQueue.filter(existing => existing.seq !== withSeq.seq), withSeq]
+  return withSeq.seq
+}
+
+// The subscription changes a mutation makes
+const changesOf = (mutation: PendingMutation): SubscriptionChange[] => {
+  if (mutation.type === 'list') return mutation.changes || []
+  return [{ type: mutation.type, subscriptionId: mutation.subscriptionId, subscription: mutation.subscription, base: mutation.base }]
+}
+
+const removeMutation = async (seq: number): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(seq))
+  memoryQueue = memoryQueue.filter(existing => existing.seq !== seq)
+}
+
+const readCache = async (workspaceId: string): Promise<CachedWorkspace | null> => {
+  const stored = await runRequest<CachedWorkspace | undefined>(CACHE_STORE, 'readonly', store => store.get(workspaceId))
+  return stored || memoryCache.get(workspaceId) || null
+}
+
+const writeCache = async (cached: CachedWorkspace): Promise<void> => {
+  memoryCache.set(cached.workspaceId, cached)
+  await runRequest(CACHE_STORE, 'readwrite', store => store.put(cached))
+}
+
+// Replace (or remove, when server is null) one subscription in a workspace's cache
+const updateCache = async (workspaceId: string, subscriptionId: string, server: Subscription | null): Promise<void> => {
+  const cached = await readCache(workspaceId)
+  if (!cached) return
+
+  const others = cached.subscriptions.filter(sub => sub.id !== subscriptionId)
+  await writeCache({ ...cached, subscriptions: server ? [...others, server] : others })
+}
+
+// Status
+const setStatus = (changes: Partial<SyncStatus>): void => {
+  status = { ...status, ...changes }
+  listeners.forEach(listener => listener(status))
+}
+
+const refreshStatus = async (userId: string, state?: SyncState): Promise<void> => {
+  const queue = (await readQueue()).filter(mutation => mutation.userId === userId)
+  const conflicts = queue.filter(mutation => mutation.conflict)
+  const waiting = queue.length - conflicts.length
+
+  let next = state || status.state
+  if (!state && status.state !== 'syncing') {
+    next = waiting === 0 ? 'synced' : isOnline() ? 'error' : 'offline'
+  }
+  setStatus({ state: next, pending: queue.length, conflicts })
+}
+
+export const getSyncStatus = (): SyncStatus => status
+
+// Recount the user's queued changes, e.g. after going offline, without sending any
+export const refreshSyncStatus = async (userId: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+  await refreshStatus(userId)
+}
+
+// Listen for sync status changes; returns a function that stops listening
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const isOnline = (): boolean => {
+  return typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
+// Errors without a Postgres or PostgREST code never reached the database (no connection)
+const isNetworkError = (error: { code?: string } | null): boolean => {
+  return !!error && !error.code
+}
+
+// Cache
+// Remember the subscriptions just loaded from the database for a workspace
+export const cacheSubscriptions = async (workspaceId: string, subscriptions: Subscription[]): Promise<void> => {
+  if (typeof window === 'undefined') return
+  await writeCache({ workspaceId, subscriptions, syncedAt: new Date() })
+  setStatus({ lastSyncedAt: new Date() })
+}
+
+// The current workspace's subscriptions as last loaded from the database; null if never cached
+export const loadCachedSubscriptions = async (userId: string): Promise<Subscription[] | null> => {
+  if (typeof window === 'undefined') return null
+
+  const workspace = await getCurrentWorkspace(userId)
+  if (!workspace) return null
+
+  const cached = await readCache(workspace.id)
+  return cached ? cached.subscriptions : null
+}
+
+// Show changes that have not reached the database yet (including conflicts) on top of
+// a workspace's subscriptions
+export const applyPendingMutations = async (subscriptions: Subscription[], userId: string): Promise<Subscription[]> => {
+  if (typeof window === 'undefined') return subscriptions
+
+  const workspace = await getCurrentWorkspace(userId)
+  if (!workspace) return subscriptions
+
+  const queue = (await readQueue()).filter(mutation => mutation.userId === userId && mutation.workspaceId === workspace.id)
+  return queue.flatMap(changesOf).reduce((list, change) => {
+    const others = list.filter(sub => sub.id !== change.subscriptionId)
+    return change.type === 'upsert' && change.subscription ? [...others, change.subscription] : others
+  }, subscriptions)
+}
+
+// Queue
+// Merge a new change into the one already waiting for the same subscription (if any),
+// keeping the version it was based on. Returns null when nothing is left to write:
+// deleting a subscription that never reached the database just drops it.
+const mergeChange = (existing: SubscriptionChange | undefined, change: SubscriptionChange): SubscriptionChange | null => {
+  if (!existing) return change
+  if (change.type === 'delete' && !existing.base) return null
+  return { ...change, base: existing.base }
+}
+
+// Queue a change to one subscription of the current workspace and try to write it.
+// A change to a subscription that already has one waiting replaces it, keeping the
+// version it was based on; deleting a subscription that never reached the database
+// just drops it.
+export const queueSubscriptionChange = async (change: { type: 'upsert'; subscription: Subscription } | { type: 'delete'; subscriptionId: string }, userId: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  const workspace = await getCurrentWorkspace(userId)
+  if (!workspace) {
+    console.error('Error queueing subscription change: no workspace')
+    return
+  }
+
+  const subscriptionId = change.type === 'upsert' ? change.subscription.id : change.subscriptionId
+  const subscription = change.type === 'upsert' ? change.subscription : undefined
+
+  await withQueueLock(async () => {
+    const queue = await readQueue()
+    const existing = queue.find(mutation =>
+      mutation.userId === userId && !mutation.conflict && changesOf(mutation).some(queued => queued.subscriptionId === subscriptionId)
+    )
+
+    if (existing && existing.seq !== undefined) {
+      const previous = changesOf(existing).find(queued => queued.subscriptionId === subscriptionId)
+      const merged = mergeChange(previous, { type: change.type, subscriptionId, subscription, base: null })
+
+      if (existing.type === 'list') {
+        // Still saved together with the rest of its list
+        const others = changesOf(existing).filter(queued => queued.subscriptionId !== subscriptionId)
+        const changes = merged ? [...others, merged] : others
+        if (changes.length === 0) {
+          await removeMutation(existing.seq)
+          return
+        }
+        await putMutation({ ...existing, changes, queuedAt: new Date() })
+        return
+      }
+
+      if (!merged) {
+        await removeMutation(existing.seq)
+        return
+      }
+      await putMutation({ ...existing, type: merged.type, subscription: merged.subscription, queuedAt: new Date() })
+      return
+    }
+
+    const cached = await readCache(workspace.id)
+    const base = cached ? cached.subscriptions.find(sub => sub.id === subscriptionId) || null : null
+
+    await putMutation({
+      userId,
+      workspaceId: workspace.id,
+      type: change.type,
+      subscriptionId,
+      subscription,
+      base,
+      queuedAt: new Date()
+    })
+  })
+
+  await flushMutations(userId)
+}
+
+// Queue whatever differs between the current workspace's subscriptions (as synced,
+// plus pending changes) and a new full list, as one change saved all or not at all.
+// Changes already waiting for the workspace are folded into it.
+export const queueSubscriptionList = async (subscriptions: Subscription[], userId: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  const workspace = await getCurrentWorkspace(userId)
+  if (!workspace) {
+    console.error('Error queueing subscription list: no workspace')
+    return
+  }
+
+  const current = await applyPendingMutations((await loadCachedSubscriptions(userId)) || [], userId)
+  const sameRow = (a: Subscription, b: Subscription) => JSON.stringify(toDatabaseSubscription(a)) === JSON.stringify(toDatabaseSubscription(b))
+
+  const diff: SubscriptionChange[] = []
+  for (const sub of subscriptions) {
+    const existing = current.find(candidate => candidate.id === sub.id)
+    if (!existing || !sameRow(existing, sub)) {
+      diff.push({ type: 'upsert', subscriptionId: sub.id, subscription: sub, base: null })
+    }
+  }
+  for (const sub of current) {
+    if (!subscriptions.some(candidate => candidate.id === sub.id)) {
+      diff.push({ type: 'delete', subscriptionId: sub.id, base: null })
+    }
+  }
+  if (diff.length === 0) return
+
+  await withQueueLock(async () => {
+    const waiting = (await readQueue()).filter(mutation =>
+      mutation.userId === userId && mutation.workspaceId === workspace.id && !mutation.conflict
+    )
+    const cached = await readCache(workspace.id)
+
+    let changes = waiting.flatMap(changesOf)
+    for (const change of diff) {
+      const previous = changes.find(queued => queued.subscriptionId === change.subscriptionId)
+      const base = previous ? previous.base : cached ? cached.subscriptions.find(sub => sub.id === change.subscriptionId) || null : null
+      const merged = previous ? mergeChange(previous, change) : { ...change, base }
+      changes = changes.filter(queued => queued.subscriptionId !== change.subscriptionId)
+      if (merged) changes.push(merged)
+    }
+
+    for (const mutation of waiting) {
+      await removeMutation(mutation.seq as number)
+    }
+    if (changes.length === 0) return
+
+    await putMutation({
+      userId,
+      workspaceId: workspace.id,
+      type: 'list',
+      subscriptionId: '',
+      base: null,
+      changes,
+      queuedAt: new Date()
+    })
+  })
+
+  await flushMutations(userId)
+}
+
+// Replay
+type ReplayResult = { outcome: 'done'; server: Subscription | null } | { outcome: 'conflict'; conflict: SyncConflict } | { outcome: 'offline' }
+
+const fetchServerSubscription = async (supabase: any, mutation: PendingMutation): Promise<Subscription | null> => {
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('*')
+    .eq('id', mutation.subscriptionId)
+    .eq('workspace_id', mutation.workspaceId)
+    .maybeSingle()
+  return data ? fromDatabaseSubscription(data) : null
+}
+
+// Write one queued change, only if the row is still at the version it was based on
+const replayMutation = async (supabase: any, mutation: PendingMutation): Promise<ReplayResult> => {
+  const conflictFor = async (error?: { message?: string }): Promise<ReplayResult> => {
+    if (error) {
+      return { outcome: 'conflict', conflict: { reason: 'rejected', message: error.message } }
+    }
+    const server = await fetchServerSubscription(supabase, mutation)
+    if (!server) {
+      return { outcome: 'conflict', conflict: { reason: 'deleted' } }
+    }
+    // Row Level Security filters out rows the user may not change instead of raising an
+    // error, so a row still at the base version was refused, not changed by someone else
+    if (mutation.base && server.updatedAt === mutation.base.updatedAt) {
+      return { outcome: 'conflict', conflict: { reason: 'rejected', server, message: 'you do not have permission to change this workspace' } }
+    }
+    return { outcome: 'conflict', conflict: { reason: 'changed', server } }
+  }
+
+  if (mutation.type === 'delete') {
+    let query = supabase
+      .from('subscriptions')
+      .delete()
+      .eq('id', mutation.subscriptionId)
+      .eq('workspace_id', mutation.workspaceId)
+    if (mutation.base?.updatedAt) {
+      query = query.eq('updated_at', mutation.base.updatedAt)
+    }
+
+    const { data, error } = await query.select()
+    if (isNetworkError(error)) return { outcome: 'offline' }
+    if (error) return conflictFor(error)
+    if (data && data.length > 0) return { outcome: 'done', server: null }
+
+    // Nothing deleted: either it is already gone, or it was changed since (or refused)
+    const server = await fetchServerSubscription(supabase, mutation)
+    return server ? conflictFor() : { outcome: 'done', server: null }
+  }
+
+  const subscription = mutation.subscription as Subscription
+
+  if (mutation.base) {
+    // Update, keeping the member who added it
+    let query = supabase
+      .from('subscriptions')
+      .update(toDatabaseSubscription(subscription))
+      .eq('id', subscription.id)
+      .eq('workspace_id', mutation.workspaceId)
+    if (mutation.base.updatedAt) {
+      query = query.eq('updated_at', mutation.base.updatedAt)
+    }
+
+    const { data, error } = await query.select()
+    if (isNetworkError(error)) return { outcome: 'offline' }
+    if (error) return conflictFor(error)
+    if (!data || data.length === 0) return conflictFor()
+
+    // The record_price_change trigger keeps the old price in the subscription's price history
+    return { outcome: 'done', server: fromDatabaseSubscription(data[0]) }
+  }
+
+  const row: Omit<DatabaseSubscription, 'created_at' | 'updated_at'> = {
+    id: subscription.id,
+    user_id: mutation.userId,
+    workspace_id: mutation.workspaceId,
+    ...toDatabaseSubscription(subscription)
+  }
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .insert(row)
+    .select()
+
+  if (isNetworkError(error)) return { outcome: 'offline' }
+  // Already inserted, e.g. by another tab replaying the same queue
+  if (error && error.code === '23505') return conflictFor()
+  if (error) return conflictFor(error)
+  return { outcome: 'done', server: data && data[0] ? fromDatabaseSubscription(data[0]) : subscription }
+}
+
+type ListReplayResult = { outcome: 'done'; servers: Map<string, Subscription | null> } | { outcome: 'split' } | { outcome: 'offline' }
+
+// Write a queued list of changes in one transaction, only if every row is still at the
+// version it was based on. Any error (including a version mismatch) means nothing was
+// written, and the changes are split up to be replayed one by one.
+const replayList = async (supabase: any, mutation: PendingMutation): Promise<ListReplayResult> => {
+  const changes = changesOf(mutation)
+  const upserts = changes.filter(change => change.type === 'upsert' && change.subscription).map(change => change.subscription as Subscription)
+  const baseVersions = changes.reduce<Record<string, string | null>>((versions, change) => {
+    versions[change.subscriptionId] = change.base?.updatedAt || null
+    return versions
+  }, {})
+
+  const { error } = await supabase.rpc('save_workspace_subscriptions', {
+    target_workspace_id: mutation.workspaceId,
+    subscription_rows: upserts.map(sub => ({ id: sub.id, ...toDatabaseSubscription(sub) })),
+    base_versions: baseVersions
+  })
+  if (isNetworkError(error)) return { outcome: 'offline' }
+  if (error) return { outcome: 'split' }
+
+  const servers = new Map<string, Subscription | null>(changes.map(change => [change.subscriptionId, null] as [string, Subscription | null]))
+  upserts.forEach(sub => servers.set(sub.id, sub))
+  if (upserts.length > 0) {
+    const { data } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .eq('workspace_id', mutation.workspaceId)
+      .in('id', upserts.map(sub => sub.id))
+    for (const row of (data || []) as DatabaseSubscription[]) {
+      servers.set(row.id, fromDatabaseSubscription(row))
+    }
+  }
+  return { outcome: 'done', servers }
+}
+
+// Write the user's queued changes to the database in order. Stops at the first change
+// that cannot be sent (offline), leaving it and later ones queued; conflicts are set
+// aside for the user to resolve.
+export const flushMutations = async (userId: string): Promise<void> => {
+  if (typeof window === 'undefined') return
+
+  await withQueueLock(async () => {
+    const queue = (await readQueue()).filter(mutation => mutation.userId === userId && !mutation.conflict)
+    if (queue.length === 0 || !isOnline()) {
+      await refreshStatus(userId)
+      return
+    }
+
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) {
+      await refreshStatus(userId)
+      return
+    }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    setStatus({ state: 'syncing' })
+    let offline = false
+    const waiting = [...queue]
+    while (waiting.length > 0) {
+      const mutation = waiting.shift() as PendingMutation
+
+      if (mutation.type === 'list') {
+        let listResult: ListReplayResult
+        try {
+          listResult = await replayList(supabase, mutation)
+        } catch (err) {
+          console.error('Error syncing subscription changes:', err)
+          listResult = { outcome: 'offline' }
+        }
+
+        if (listResult.outcome === 'offline') {
+          offline = true
+          break
+        }
+        if (listResult.outcome === 'split') {
+          // Replay the changes one by one so each conflict can be resolved on its own
+          const singles: PendingMutation[] = []
+          for (const change of changesOf(mutation)) {
+            const single: PendingMutation = { userId: mutation.userId, workspaceId: mutation.workspaceId, ...change, queuedAt: mutation.queuedAt }
+            singles.push({ ...single, seq: await putMutation(single) })
+          }
+          await removeMutation(mutation.seq as number)
+          waiting.unshift(...singles)
+          continue
+        }
+        await removeMutation(mutation.seq as number)
+        const servers = Array.from(listResult.servers.entries())
+        for (const [subscriptionId, server] of servers) {
+          await updateCache(mutation.workspaceId, subscriptionId, server)
+        }
+        continue
+      }
+
+      let result: ReplayResult
+      try {
+        result = await replayMutation(supabase, mutation)
+      } catch (err) {
+        console.error('Error syncing subscription change:', err)
+        result = { outcome: 'offline' }
+      }
+
+      if (result.outcome === 'offline') {
+        offline = true
+        break
+      }
+      if (result.outcome === 'conflict') {
+        await putMutation({ ...mutation, conflict: result.conflict })
+        continue
+      }
+      await removeMutation(mutation.seq as number)
+      await updateCache(mutation.workspaceId, mutation.subscriptionId, result.server)
+    }
+
+    if (!offline) {
+      setStatus({ lastSyncedAt: new Date() })
+    }
+    const remaining = (await readQueue()).filter(mutation => mutation.userId === userId && !mutation.conflict)
+    await refreshStatus(userId, remaining.length === 0 ? 'synced' : isOnline() ? 'error' : 'offline')
+  })
+}
+
+// Resolve a conflict by keeping this device's change (written over the database's
+// version) or the database's version (discarding the change)
+export const resolveConflict = async (mutation: PendingMutation, keep: 'mine' | 'theirs'): Promise<void> => {
+  if (typeof window === 'undefined' || mutation.seq === undefined || !mutation.conflict) return
+  const conflict = mutation.conflict
+
+  await withQueueLock(async () => {
+    if (keep === 'theirs' || conflict.reason === 'rejected') {
+      await removeMutation(mutation.seq as number)
+      await updateCache(mutation.workspaceId, mutation.subscriptionId, conflict.server || null)
+      return
+    }
+
+    // Rebase on the database's version; a deleted subscription is added again
+    await putMutation({ ...mutation, base: conflict.server || null, conflict: undefined })
+    await updateCache(mutation.workspaceId, mutation.subscriptionId, conflict.server || null)
+  })
+
+  await flushMutations(mutation.userId)
+  // Supabase users' subscriptions are keyed by their user ID
+  notifySubscriptionsChanged(mutation.userId)
+}
@@ -0,0 +1,63 @@
+// Free Trial Utilities
+//
+// A trial renews for the first time on its end date. Once that day arrives the
+// subscription is converted to Active at its post-trial price.
+
+import { Subscription } from './subscriptions'
+import { getToday, toCalendarDay } from './recurrence'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whole days from today until the trial ends, or null if the subscription has no trial end date
+export const getTrialDaysLeft = (subscription: Subscription, today: Date = getToday()): number | null => {
+  if (!subscription.trialEndDate) return null
+  return Math.round((toCalendarDay(subscription.trialEndDate).getTime() - toCalendarDay(today).getTime()) / DAY_MS)
+}
+
+// e.g. "Trial ends in 3 days"
+export const formatTrialEnding = (daysLeft: number): string => {
+  if (daysLeft <= 0) return 'Trial ends today'
+  if (daysLeft === 1) return 'Trial ends tomorrow'
+  return `Trial ends in ${daysLeft} days`
+}
+
+// Trials ending within the next N days, soonest first
+export const findEndingTrials = (subscriptions: Subscription[], days: number = 7, today: Date = getToday()): Subscription[] => {
+  return subscriptions
+    .filter(sub => {
+      const daysLeft = sub.status === 'Trial' ? getTrialDaysLeft(sub, today) : null
+      return daysLeft !== null && daysLeft >= 0 && daysLeft <= days
+    })
+    .sort((a, b) => a.trialEndDate!.getTime() - b.trialEndDate!.getTime())
+}
+
+// Subscriptions converted from a trial within the last N days, so the user can still cancel
+export const findConvertedTrials = (subscriptions: Subscription[], days: number = 7, today: Date = getToday()): Subscription[] => {
+  return subscriptions.filter(sub => {
+    const daysLeft = sub.status === 'Active' ? getTrialDaysLeft(sub, today) : null
+    return daysLeft !== null && daysLeft <= 0 && daysLeft >= -days
+  })
+}
+
+// Convert trials whose end date has arrived into active subscriptions.
+// Returns the updated list and the subscriptions that were converted.
+export const convertEndedTrials = (subscriptions: Subscription[], today: Date = getToday()): { subscriptions: Subscription[]; changed: Subscription[] } => {
+  const changed: Subscription[] = []
+
+  const updated = subscriptions.map(sub => {
+    const daysLeft = sub.status === 'Trial' ? getTrialDaysLeft(sub, today) : null
+    if (daysLeft === null || daysLeft > 0) {
+      return sub
+    }
+    const converted: Subscription = {
+      ...sub,
+      status: 'Active',
+      cost: sub.postTrialCost !== undefined ? sub.postTrialCost : sub.cost,
+      renewalDate: toCalendarDay(sub.trialEndDate!)
+    }
+    changed.push(converted)
+    return converted
+  })
+
+  return { subscriptions: updated, changed }
+}
@@ -0,0 +1,97 @@
+// Workspace Invitation Utilities (server-only)
+//
+// Invitations are created by the invite route with the service role key, after it has
+// checked the inviter owns the workspace, and emailed as a link to
+// /dashboard/workspaces/accept?token=<token>.
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { EmailMessage, EmailTransport } from './email'
+import { escapeHtml, generateToken } from './encoding'
+import { WorkspaceRole, WORKSPACE_ROLE_LABELS } from './workspaces'
+
+export interface InvitationRequest {
+  workspaceId: string
+  email: string
+  role: WorkspaceRole
+  invitedBy: string
+  inviterEmail?: string
+  // Origin the accept link points at, e.g. https://example.com
+  origin: string
+}
+
+export const renderInvitationEmail = (workspaceName: string, role: WorkspaceRole, acceptUrl: string, inviterEmail?: string): Omit<EmailMessage, 'to'> => {
+  const inviter = inviterEmail || 'Someone'
+  const subject = `${inviter} invited you to the ${workspaceName} workspace`
+  const summary = `${inviter} invited you to join the ${workspaceName} workspace as ${WORKSPACE_ROLE_LABELS[role].toLowerCase()}, to share its subscriptions.`
+  const instructions = 'Sign in with this email address and open the link below to accept:'
+
+  const text = [
+    'Hi,',
+    '',
+    summary,
+    '',
+    instructions,
+    acceptUrl,
+  ].join('\n')
+
+  const html = `
+    <p>Hi,</p>
+    <p>${escapeHtml(summary)}</p>
+    <p>${escapeHtml(instructions)}</p>
+    <p><a href="${escapeHtml(acceptUrl)}">${escapeHtml(acceptUrl)}</a></p>
+  `.trim()
+
+  return { subject, text, html }
+}
+
+// Record an invitation and email it. Throws with a user-facing message on failure.
+export const sendWorkspaceInvitation = async (supabase: SupabaseClient, transport: EmailTransport, request: InvitationRequest): Promise<void> => {
+  const { data: membership } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(name)')
+    .eq('workspace_id', request.workspaceId)
+    .eq('user_id', request.invitedBy)
+    .single()
+
+  if (!membership || membership.role !== 'owner') {
+    throw new Error('Only the workspace owner can invite members')
+  }
+
+  const email = request.email.trim().toLowerCase()
+  const { data: existingMember } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', request.workspaceId)
+    .eq('email', email)
+    .maybeSingle()
+
+  if (existingMember) {
+    throw new Error(`${email} is already a member of this workspace`)
+  }
+
+  const token = generateToken()
+  const { error } = await supabase
+    .from('workspace_invitations')
+    .insert({
+      workspace_id: request.workspaceId,
+      email,
+      role: request.role,
+      token,
+      invited_by: request.invitedBy,
+    })
+
+  if (error) {
+    throw new Error(`Error recording invitation: ${error.message}`)
+  }
+
+  const workspaceName = (membership.workspaces as any)?.name || 'shared'
+  const acceptUrl = `${request.origin}/dashboard/workspaces/accept?token=${token}`
+
+  try {
+    await transport.send({ to: email, ...renderInvitationEmail(workspaceName, request.role, acceptUrl, request.inviterEmail) })
+  } catch (err) {
+    // Remove the invitation so the owner can simply try again
+    await supabase.from('workspace_invitations').delete().eq('token', token)
+    throw err
+  }
+}
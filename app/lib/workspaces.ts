@@ -0,0 +1,431 @@
+// Workspace Utilities
+//
+// Supabase users' subscriptions belong to a workspace shared by its members, who are
+// owners, editors or viewers. Everyone starts with a personal workspace. The workspace
+// being viewed is remembered per user in localStorage. Local accounts have no workspaces
+// and keep a single private list.
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { generateSubscriptionId } from './subscriptions'
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// Roles an invitation can grant; each workspace has exactly one owner
+export const INVITE_ROLES: WorkspaceRole[] = ['editor', 'viewer']
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  // The current user's role in this workspace
+  role: WorkspaceRole
+}
+
+export interface WorkspaceMember {
+  userId: string
+  email: string | null
+  role: WorkspaceRole
+}
+
+export interface WorkspaceInvitation {
+  id: string
+  email: string
+  role: WorkspaceRole
+  createdAt: Date
+}
+
+const PERSONAL_WORKSPACE_NAME = 'Personal'
+
+// Whether the user may add, change or delete subscriptions. Local users (no workspace) always can.
+export const canEditWorkspace = (workspace: Workspace | null): boolean => {
+  return !workspace || workspace.role !== 'viewer'
+}
+
+// Validate a workspace name, returning an error message or null
+export const validateWorkspaceName = (name: string): string | null => {
+  const trimmed = name.trim()
+  if (!trimmed) {
+    return 'Name is required'
+  }
+  if (trimmed.length > 50) {
+    return 'Name must be 50 characters or fewer'
+  }
+  return null
+}
+
+// LocalStorage Utilities (remembers the workspace being viewed)
+const getStorageKey = (userId: string): string => {
+  return `current_workspace_${userId}`
+}
+
+// The workspace last selected by this user, without checking the database
+export const getStoredWorkspace = (userId: string): Workspace | null => {
+  if (typeof window === 'undefined') return null
+
+  const stored = localStorage.getItem(getStorageKey(userId))
+  if (!stored) return null
+
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return null
+  }
+}
+
+export const setCurrentWorkspace = (workspace: Workspace, userId: string): void => {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(getStorageKey(userId), JSON.stringify(workspace))
+}
+
+// Load the workspaces the user belongs to; null if the database could not be reached
+export const loadWorkspaces = async (userId: string): Promise<Workspace[] | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(id, name)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading workspaces:', error)
+      return null
+    }
+
+    return (data || [])
+      .filter((row: any) => row.workspaces)
+      .map((row: any) => ({ id: row.workspaces.id, name: row.workspaces.name, role: row.role }))
+  } catch (err) {
+    console.error('Error loading workspaces from DB:', err)
+    return null
+  }
+}
+
+// Create a workspace owned by the user. The database adds the owner as a member.
+export const createWorkspace = async (name: string, userId: string): Promise<Workspace | null> => {
+  try {
+    if (typeof window === 'undefined') return null
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return null
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    // The ID is generated here because the new row is not readable until the owner is a member
+    const workspace: Workspace = { id: generateSubscriptionId(), name: name.trim(), role: 'owner' }
+    const { error } = await supabase
+      .from('workspaces')
+      .insert({ id: workspace.id, name: workspace.name, owner_id: userId })
+
+    if (error) {
+      console.error('Error creating workspace:', error)
+      return null
+    }
+
+    return workspace
+  } catch (err) {
+    console.error('Error creating workspace in DB:', err)
+    return null
+  }
+}
+
+// Rename a workspace (owners only)
+export const renameWorkspace = async (workspaceId: string, name: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ name: name.trim() })
+      .eq('id', workspaceId)
+
+    if (error) {
+      console.error('Error renaming workspace:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error renaming workspace in DB:', err)
+    return false
+  }
+}
+
+// Pick the workspace to view from the user's workspaces: the remembered one if the user
+// is still a member (with their current role), otherwise the first.
+export const selectCurrentWorkspace = (workspaces: Workspace[], userId: string): Workspace | null => {
+  const stored = getStoredWorkspace(userId)
+  const workspace = workspaces.find(ws => ws.id === stored?.id) || workspaces[0] || null
+  if (workspace) {
+    setCurrentWorkspace(workspace, userId)
+  }
+  return workspace
+}
+
+// The workspace being viewed. The first time, this loads the user's workspaces and
+// creates a personal one if they have none. Null if the database could not be reached.
+export const getCurrentWorkspace = async (userId: string): Promise<Workspace | null> => {
+  const stored = getStoredWorkspace(userId)
+  if (stored) return stored
+
+  return refreshCurrentWorkspace(userId)
+}
+
+// The workspace being viewed, checked against the database: the user's role may have
+// changed, or they may have been removed, since it was remembered. Falls back to the
+// remembered workspace when the database cannot be reached.
+export const refreshCurrentWorkspace = async (userId: string): Promise<Workspace | null> => {
+  const workspaces = await loadWorkspaces(userId)
+  if (!workspaces) return getStoredWorkspace(userId)
+
+  if (workspaces.length === 0) {
+    const personal = await createWorkspace(PERSONAL_WORKSPACE_NAME, userId)
+    if (!personal) return null
+    workspaces.push(personal)
+  }
+
+  return selectCurrentWorkspace(workspaces, userId)
+}
+
+// Load the members of a workspace, owner first
+export const loadWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  try {
+    if (typeof window === 'undefined') return []
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return []
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('user_id, email, role')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading workspace members:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({ userId: row.user_id, email: row.email, role: row.role }))
+  } catch (err) {
+    console.error('Error loading workspace members from DB:', err)
+    return []
+  }
+}
+
+// Change a member's role (owners only; the owner's own role cannot change)
+export const updateMemberRole = async (workspaceId: string, memberId: string, role: WorkspaceRole): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+
+    if (error) {
+      console.error('Error updating member role:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error updating member role in DB:', err)
+    return false
+  }
+}
+
+// Remove a member from a workspace, or leave it when memberId is the current user
+export const removeMember = async (workspaceId: string, memberId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+
+    if (error) {
+      console.error('Error removing member:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error removing member from DB:', err)
+    return false
+  }
+}
+
+// Load a workspace's pending invitations (owners only)
+export const loadWorkspaceInvitations = async (workspaceId: string): Promise<WorkspaceInvitation[]> => {
+  try {
+    if (typeof window === 'undefined') return []
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return []
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('workspace_invitations')
+      .select('id, email, role, created_at')
+      .eq('workspace_id', workspaceId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error loading workspace invitations:', error)
+      return []
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      email: row.email,
+      role: row.role,
+      createdAt: new Date(row.created_at)
+    }))
+  } catch (err) {
+    console.error('Error loading workspace invitations from DB:', err)
+    return []
+  }
+}
+
+// Withdraw a pending invitation
+export const revokeInvitation = async (invitationId: string): Promise<boolean> => {
+  try {
+    if (typeof window === 'undefined') return false
+
+    // Lazy load Supabase only on client
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return false
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { error } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', invitationId)
+
+    if (error) {
+      console.error('Error revoking invitation:', error)
+      return false
+    }
+
+    return true
+  } catch (err) {
+    console.error('Error revoking invitation in DB:', err)
+    return false
+  }
+}
+
+// Invite someone by email. The invite route checks the user owns the workspace,
+// records the invitation and emails the accept link.
+export const inviteToWorkspace = async (workspaceId: string, email: string, role: WorkspaceRole): Promise<{ success: boolean; error?: string }> => {
+  if (typeof window === 'undefined') return { success: false, error: 'Not available' }
+
+  const trimmed = email.trim()
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+    return { success: false, error: 'Enter a valid email address' }
+  }
+
+  try {
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return { success: false, error: 'Supabase is not configured' }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      return { success: false, error: 'You need to be signed in to invite members' }
+    }
+
+    const response = await fetch('/api/workspaces/invite', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ workspaceId, email: trimmed, role })
+    })
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      return { success: false, error: body?.error || 'Failed to send invitation' }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    console.error('Error inviting to workspace:', err)
+    return { success: false, error: err.message || 'Failed to send invitation' }
+  }
+}
+
+// Join a workspace with an invitation token and switch to it
+export const acceptInvitation = async (token: string, userId: string): Promise<{ success: boolean; error?: string; workspace?: Workspace }> => {
+  if (typeof window === 'undefined') return { success: false, error: 'Not available' }
+
+  try {
+    const supabaseModule = await import('./supabase-client').catch(() => null)
+    if (!supabaseModule) return { success: false, error: 'Supabase is not configured' }
+    const supabase = await supabaseModule.getSupabaseClient()
+
+    const { data: workspaceId, error } = await supabase.rpc('accept_workspace_invitation', { invite_token: token })
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const workspace = (await loadWorkspaces(userId))?.find(ws => ws.id === workspaceId)
+    if (!workspace) {
+      return { success: false, error: 'Could not load the workspace' }
+    }
+
+    setCurrentWorkspace(workspace, userId)
+    return { success: true, workspace }
+  } catch (err: any) {
+    console.error('Error accepting invitation:', err)
+    return { success: false, error: err.message || 'Failed to accept invitation' }
+  }
+}
+
+// IDs of every workspace a user belongs to (server-side, with the service role client)
+export const loadMemberWorkspaceIds = async (supabase: SupabaseClient, userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Error loading workspaces: ${error.message}`)
+  }
+
+  return (data || []).map((row: { workspace_id: string }) => row.workspace_id)
+}
@@ -2,7 +2,15 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { signInWithGoogle, isAuthenticated, loginUser, registerUser, isSupabaseAuthenticated } from './lib/auth'
+import { signInWithGoogle, isAuthenticated, loginUser, registerUser, resetPassword, isSupabaseAuthenticated } from './lib/auth'
+import { getSafeRedirectPath, setLocalSessionCookie } from './lib/session'
+import EmailSignInForm from './components/EmailSignInForm'
+
+// Where the middleware was taking the user before sending them here to sign in
+const getNextPath = (): string => {
+  if (typeof window === 'undefined') return '/dashboard'
+  return getSafeRedirectPath(new URLSearchParams(window.location.search).get('next'))
+}
 
 export default function LandingPage() {
   const router = useRouter()
@@ -10,21 +18,40 @@ export default function LandingPage() {
   const [error, setError] = useState<string | null>(null)
   const [showTempLogin, setShowTempLogin] = useState(false)
   const [isSignUp, setIsSignUp] = useState(false)
+  const [isResetting, setIsResetting] = useState(false)
+  // Shown once after signing up or resetting a password, before going on to the dashboard
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     username: '',
     password: '',
     confirmPassword: '',
-    fullName: ''
+    fullName: '',
+    recoveryCode: ''
   })
 
   useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (params.get('expired')) {
+      setShowTempLogin(true)
+      setError('Your session has expired. Please sign in again.')
+    } else if (params.get('error')) {
+      // From /auth/callback, e.g. an email link that has expired or was already used
+      setError(params.get('error') === 'configuration'
+        ? 'Sign in is not configured. Please check the Supabase settings.'
+        : params.get('error'))
+    }
+
     // Check authentication and redirect
     const checkAuth = async () => {
       const supabaseAuth = await isSupabaseAuthenticated()
       const localAuth = isAuthenticated()
       
+      if (localAuth) {
+        // Local users signed in before the middleware existed have no marker cookie yet
+        setLocalSessionCookie(true)
+      }
       if (supabaseAuth || localAuth) {
-        router.push('/dashboard')
+        router.push(getNextPath())
       }
     }
     checkAuth()
@@ -35,7 +62,7 @@ export default function LandingPage() {
     setError(null)
     
     try {
-      const result = await signInWithGoogle()
+      const result = await signInWithGoogle(getNextPath())
       if (result.success) {
         // The redirect will happen automatically via OAuth flow
         // No need to manually redirect here
@@ -49,18 +76,30 @@ export default function LandingPage() {
     }
   }
 
-  const handleTempLogin = (e: React.FormEvent) => {
+  const handleTempLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
     setIsLoading(true)
 
     try {
-      if (isSignUp) {
-        const result = registerUser(formData.username, formData.password, formData.fullName || undefined)
+      if (isResetting) {
+        const result = await resetPassword(formData.username, formData.recoveryCode, formData.password, formData.confirmPassword)
+        if (!result.success) {
+          setError(result.error || 'Password reset failed')
+          return
+        }
+        const loginResult = await loginUser(formData.username, formData.password)
+        if (loginResult.success) {
+          setRecoveryCode(result.recoveryCode || null)
+        } else {
+          setError(loginResult.error || 'Failed to log in')
+        }
+      } else if (isSignUp) {
+        const result = await registerUser(formData.username, formData.password, formData.fullName || undefined, formData.confirmPassword)
         if (result.success) {
-          const loginResult = loginUser(formData.username, formData.password)
+          const loginResult = await loginUser(formData.username, formData.password)
           if (loginResult.success) {
-            router.push('/dashboard')
+            setRecoveryCode(result.recoveryCode || null)
           } else {
             setError(loginResult.error || 'Failed to log in')
           }
@@ -68,9 +107,9 @@ export default function LandingPage() {
           setError(result.error || 'Registration failed')
         }
       } else {
-        const result = loginUser(formData.username, formData.password)
+        const result = await loginUser(formData.username, formData.password)
         if (result.success) {
-          router.push('/dashboard')
+          router.push(getNextPath())
         } else {
           setError(result.error || 'Login failed')
         }
@@ -80,6 +119,34 @@ export default function LandingPage() {
     }
   }
 
+  const switchMode = (signUp: boolean, resetting: boolean = false) => {
+    setIsSignUp(signUp)
+    setIsResetting(resetting)
+    setError(null)
+  }
+
+  if (recoveryCode) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-gray-900 rounded-2xl p-8 border border-gray-800">
+          <h1 className="text-xl font-bold text-white mb-2">Save your recovery code</h1>
+          <p className="text-gray-400 text-sm mb-4">
+            You need it to reset your password if you forget it. It is only shown now, so write it down or keep it in a password manager.
+          </p>
+          <div className="px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white text-lg font-mono text-center tracking-wider mb-6">
+            {recoveryCode}
+          </div>
+          <button
+            onClick={() => router.push(getNextPath())}
+            className="w-full bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors touch-target"
+          >
+            I have saved it, continue
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-black flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -130,6 +197,17 @@ export default function LandingPage() {
             </div>
           </div>
 
+          <EmailSignInForm next={getNextPath()} onError={setError} />
+
+          <div className="relative my-6">
+            <div className="absolute inset-0 flex items-center">
+              <div className="w-full border-t border-gray-700"></div>
+            </div>
+            <div className="relative flex justify-center text-sm">
+              <span className="px-2 bg-gray-900 text-gray-500">or</span>
+            </div>
+          </div>
+
           <button
             onClick={() => setShowTempLogin(!showTempLogin)}
             className="w-full text-pastel-blue hover:text-pastel-blue-light text-sm font-medium py-2 transition-colors"
@@ -142,12 +220,9 @@ export default function LandingPage() {
               <div className="flex gap-2 mb-4">
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsSignUp(false)
-                    setError(null)
-                  }}
+                  onClick={() => switchMode(false)}
                   className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
-                    !isSignUp
+                    !isSignUp && !isResetting
                       ? 'bg-pastel-blue text-black'
                       : 'bg-gray-800 text-gray-300'
                   }`}
@@ -156,10 +231,7 @@ export default function LandingPage() {
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsSignUp(true)
-                    setError(null)
-                  }}
+                  onClick={() => switchMode(true)}
                   className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
                     isSignUp
                       ? 'bg-pastel-blue text-black'
@@ -201,9 +273,27 @@ export default function LandingPage() {
                 />
               </div>
 
+              {isResetting && (
+                <div>
+                  <label htmlFor="recoveryCode" className="block text-sm font-medium text-gray-300 mb-2">
+                    Recovery Code
+                  </label>
+                  <input
+                    type="text"
+                    id="recoveryCode"
+                    value={formData.recoveryCode}
+                    onChange={(e) => setFormData(prev => ({ ...prev, recoveryCode: e.target.value }))}
+                    className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 font-mono focus:outline-none focus:ring-2 focus:ring-pastel-blue focus:border-transparent"
+                    placeholder="XXXX-XXXX-XXXX-XXXX"
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+              )}
+
               <div>
                 <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                  Password
+                  {isResetting ? 'New Password' : 'Password'}
                 </label>
                 <input
                   type="password"
@@ -216,7 +306,7 @@ export default function LandingPage() {
                 />
               </div>
 
-              {isSignUp && (
+              {(isSignUp || isResetting) && (
                 <div>
                   <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
                     Confirm Password
@@ -238,8 +328,18 @@ export default function LandingPage() {
                 disabled={isLoading}
                 className="w-full bg-pastel-blue hover:bg-pastel-blue-dark text-black font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed touch-target"
               >
-                {isLoading ? 'Please wait...' : isSignUp ? 'Sign Up' : 'Sign In'}
+                {isLoading ? 'Please wait...' : isResetting ? 'Reset Password' : isSignUp ? 'Sign Up' : 'Sign In'}
               </button>
+
+              {!isSignUp && (
+                <button
+                  type="button"
+                  onClick={() => switchMode(false, !isResetting)}
+                  className="w-full text-gray-400 hover:text-white text-sm py-1 transition-colors"
+                >
+                  {isResetting ? 'Back to sign in' : 'Forgot password?'}
+                </button>
+              )}
             </form>
           )}
 
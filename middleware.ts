@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { LOCAL_SESSION_COOKIE, isProtectedPath } from './app/lib/session'
+
+// Runs before every page: refreshes the Supabase session cookies when the access token
+// has expired, and sends visitors who are not signed in from /dashboard to the sign in
+// page before anything renders. Local auth users are let through on their marker cookie
+// (see app/lib/session.ts); the dashboard still checks them on the client.
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+  let signedIn = request.cookies.has(LOCAL_SESSION_COOKIE)
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (supabaseUrl && supabaseAnonKey) {
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          // Refreshed tokens go to the page being rendered and back to the browser
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    })
+
+    // getUser() checks the token with Supabase Auth, refreshing the session if needed
+    const { data: { user } } = await supabase.auth.getUser()
+    signedIn = signedIn || Boolean(user)
+  }
+
+  if (!signedIn && isProtectedPath(request.nextUrl.pathname)) {
+    const signInUrl = request.nextUrl.clone()
+    signInUrl.pathname = '/'
+    signInUrl.search = ''
+    signInUrl.searchParams.set('next', `${request.nextUrl.pathname}${request.nextUrl.search}`)
+
+    // Keep any cookie changes, e.g. an expired session being cleared
+    const redirect = NextResponse.redirect(signInUrl)
+    response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie))
+    return redirect
+  }
+
+  return response
+}
+
+export const config = {
+  // Everything except static files and API routes, which check their own credentials
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|api/|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+}
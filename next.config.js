@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  webpack: (config, { isServer }) => {
+  webpack: (config, { isServer, nextRuntime }) => {
     if (!isServer) {
       config.resolve.fallback = {
         ...config.resolve.fallback,
@@ -9,9 +9,10 @@ const nextConfig = {
         tls: false,
       }
     }
-    // Ensure Supabase modules are properly externalized
+    // Ensure Supabase modules are properly externalized (except in middleware, which runs
+    // on the edge runtime and must bundle its dependencies)
     config.externals = config.externals || []
-    if (isServer) {
+    if (isServer && nextRuntime !== 'edge') {
       config.externals.push('@supabase/supabase-js')
     }
     return config
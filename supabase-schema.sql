@@ -3,31 +3,194 @@
 -- Enable UUID extension (if not already enabled)
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Workspaces table
+-- Subscriptions belong to a workspace; every user starts with a personal one
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspaces_owner_id ON workspaces(owner_id);
+
+-- Workspace members table
+-- Owners manage the workspace and its members, editors manage subscriptions, viewers can only read
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  -- Copied (lower-cased) from the user's account so members can see who else is in the workspace
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- Workspace invitations table
+-- Pending invitations by email; accepted through accept_workspace_invitation()
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  accepted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace_id ON workspace_invitations(workspace_id);
+
+-- Payment methods table
+-- Cards and accounts a workspace's subscriptions are paid with. Only the last four digits
+-- and expiry of a card are kept, never the full number.
+CREATE TABLE IF NOT EXISTS payment_methods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 50),
+  type TEXT NOT NULL CHECK (type IN ('credit', 'debit', 'bank', 'paypal', 'other')),
+  last4 TEXT CHECK (last4 IS NULL OR last4 ~ '^[0-9]{4}$'),
+  -- Card expiry, only set for credit and debit cards
+  expiry_month INTEGER CHECK (expiry_month IS NULL OR expiry_month BETWEEN 1 AND 12),
+  expiry_year INTEGER CHECK (expiry_year IS NULL OR expiry_year BETWEEN 2000 AND 2100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_methods_workspace_id ON payment_methods(workspace_id);
+
 -- Subscriptions table
 CREATE TABLE IF NOT EXISTS subscriptions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- The member who added the subscription
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   cost DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$'),
   renewal_date DATE NOT NULL,
-  cycle TEXT NOT NULL CHECK (cycle IN ('Monthly', 'Annually')),
-  status TEXT NOT NULL CHECK (status IN ('Active', 'Trial')),
-  category TEXT NOT NULL CHECK (category IN ('Software', 'Shopping', 'Design', 'Storage', 'Entertainment')),
+  cycle TEXT NOT NULL CHECK (cycle IN ('Weekly', 'Monthly', 'Quarterly', 'Semi-Annually', 'Annually', 'Custom')),
+  -- "Every N days/weeks/months", only set when cycle is 'Custom'
+  interval_count INTEGER CHECK (interval_count IS NULL OR interval_count >= 1),
+  interval_unit TEXT CHECK (interval_unit IS NULL OR interval_unit IN ('days', 'weeks', 'months')),
+  status TEXT NOT NULL CHECK (status IN ('Active', 'Trial', 'Paused', 'Cancelled', 'Expired')),
+  -- Name of one of the workspace's categories
+  category TEXT NOT NULL,
+  -- Free trial details, only set while status is 'Trial'
+  trial_start_date DATE,
+  trial_end_date DATE,
+  post_trial_cost DECIMAL(10, 2) CHECK (post_trial_cost IS NULL OR post_trial_cost >= 0),
+  -- Set when cancelled: when it was cancelled and the last day of paid-for service
+  cancellation_date DATE,
+  active_until DATE,
+  -- Cost shared with other people: {"method": "equal" | "percentage" | "fixed", "myShare", "participants": [{"name", "share"}], "paidBy"}
+  split JSONB,
+  -- The card or account it is paid with
+  payment_method_id UUID REFERENCES payment_methods(id) ON DELETE SET NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT subscriptions_custom_interval_check CHECK (
+    cycle <> 'Custom' OR (interval_count IS NOT NULL AND interval_unit IS NOT NULL)
+  ),
+  CONSTRAINT subscriptions_trial_dates_check CHECK (
+    trial_start_date IS NULL OR trial_end_date IS NULL OR trial_start_date <= trial_end_date
+  ),
+  CONSTRAINT subscriptions_cancellation_check CHECK (
+    status <> 'Cancelled' OR (cancellation_date IS NOT NULL AND active_until IS NOT NULL)
+  )
 );
 
 -- Create index on user_id for faster queries
 CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_workspace_id ON subscriptions(workspace_id);
 CREATE INDEX IF NOT EXISTS idx_subscriptions_renewal_date ON subscriptions(renewal_date);
 CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions(status);
 
+-- Subscription price history table
+-- One row each time a subscription's price (cost, currency or cycle) is changed,
+-- with the price before and after. Trials are recorded at their post-trial cost.
+CREATE TABLE IF NOT EXISTS subscription_price_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  -- The member who changed the price
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  old_cost DECIMAL(10, 2) NOT NULL,
+  old_currency TEXT NOT NULL,
+  old_cycle TEXT NOT NULL,
+  old_interval_count INTEGER,
+  old_interval_unit TEXT,
+  new_cost DECIMAL(10, 2) NOT NULL,
+  new_currency TEXT NOT NULL,
+  new_cycle TEXT NOT NULL,
+  new_interval_count INTEGER,
+  new_interval_unit TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_price_history_subscription_id ON subscription_price_history(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_price_history_workspace_id ON subscription_price_history(workspace_id, changed_at);
+
+-- Payments table
+-- What happened at each renewal: paid (with the amount actually charged, when and how) or missed.
+-- Renewals without a row are expected payments that have not been recorded yet.
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  -- The member who recorded the payment
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- The renewal this payment is for
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('paid', 'missed')),
+  amount DECIMAL(10, 2) CHECK (amount IS NULL OR amount >= 0),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  paid_date DATE,
+  method TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (subscription_id, due_date),
+  CONSTRAINT payments_paid_check CHECK (
+    status <> 'paid' OR (amount IS NOT NULL AND paid_date IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_workspace_id ON payments(workspace_id, due_date);
+
+-- Categories table
+-- A workspace's categories; subscriptions refer to them by name
+CREATE TABLE IF NOT EXISTS categories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 30),
+  color TEXT NOT NULL DEFAULT 'gray',
+  icon TEXT NOT NULL DEFAULT 'tag',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (workspace_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_workspace_id ON categories(workspace_id);
+
 -- Notification settings table
 CREATE TABLE IF NOT EXISTS notification_settings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
   email_enabled BOOLEAN DEFAULT false,
   timeframe TEXT DEFAULT '3 days' CHECK (timeframe IN ('1 day', '3 days', '1 week', '2 weeks')),
+  -- Monthly budgets, in budget_currency: overall and per category name ({"Software": 50})
+  budget_currency TEXT NOT NULL DEFAULT 'INR' CHECK (budget_currency ~ '^[A-Z]{3}$'),
+  monthly_budget DECIMAL(10, 2) CHECK (monthly_budget IS NULL OR monthly_budget > 0),
+  category_budgets JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Include overspent budgets in renewal reminder emails
+  budget_alerts BOOLEAN DEFAULT false,
+  -- Workspace the budgets apply to, and the user's exchange rates ({"base": "INR", "rates": {...}})
+  -- so reminder emails check budgets against the same subscriptions and rates as the dashboard
+  budget_workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL,
+  budget_exchange_rates JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -35,31 +198,185 @@ CREATE TABLE IF NOT EXISTS notification_settings (
 -- Create index on user_id
 CREATE INDEX IF NOT EXISTS idx_notification_settings_user_id ON notification_settings(user_id);
 
+-- Reminder deliveries table
+-- One row per renewal emailed to each member, so the same renewal is never sent to them twice.
+-- Written by the reminders route using the service role key.
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  renewal_date DATE NOT NULL,
+  email TEXT NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, subscription_id, renewal_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_user_id ON reminder_deliveries(user_id);
+
+-- Calendar feeds table
+-- Secret per-user token for the iCalendar subscribe URL (/api/calendar/<token>.ics)
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Workspace access helpers for RLS policies.
+-- SECURITY DEFINER so policies on workspace_members can use them without recursing.
+CREATE OR REPLACE FUNCTION workspace_role(ws UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM workspace_members WHERE workspace_id = ws AND user_id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_workspace_member(ws UUID)
+RETURNS BOOLEAN AS $$
+  SELECT workspace_role(ws) IS NOT NULL
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Enable Row Level Security (RLS)
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
 ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_price_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for workspaces
+-- Members can see their workspaces; only the owner can rename or delete one
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT
+  USING (is_workspace_member(id));
+
+CREATE POLICY "Users can create workspaces they own"
+  ON workspaces FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their workspaces"
+  ON workspaces FOR UPDATE
+  USING (workspace_role(id) = 'owner')
+  WITH CHECK (workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their workspaces"
+  ON workspaces FOR DELETE
+  USING (workspace_role(id) = 'owner');
+
+-- RLS Policies for workspace_members
+-- Members are added by the owner trigger and accept_workspace_invitation(), never inserted directly.
+-- Owners can change or remove other members; anyone but the owner can leave.
+CREATE POLICY "Members can view fellow members"
+  ON workspace_members FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can change member roles"
+  ON workspace_members FOR UPDATE
+  USING (workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (role IN ('editor', 'viewer'));
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON workspace_members FOR DELETE
+  USING (role <> 'owner' AND (workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id));
+
+-- RLS Policies for workspace_invitations
+-- Only owners see and manage invitations; the invite route creates them with the service role
+CREATE POLICY "Owners can view workspace invitations"
+  ON workspace_invitations FOR SELECT
+  USING (workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can delete workspace invitations"
+  ON workspace_invitations FOR DELETE
+  USING (workspace_role(workspace_id) = 'owner');
 
 -- RLS Policies for subscriptions
--- Users can only see their own subscriptions
-CREATE POLICY "Users can view their own subscriptions"
+-- Every member can see a workspace's subscriptions
+CREATE POLICY "Members can view workspace subscriptions"
   ON subscriptions FOR SELECT
-  USING (auth.uid() = user_id);
+  USING (is_workspace_member(workspace_id));
 
--- Users can insert their own subscriptions
-CREATE POLICY "Users can insert their own subscriptions"
+-- Owners and editors can add subscriptions, recorded as their own
+CREATE POLICY "Editors can insert workspace subscriptions"
   ON subscriptions FOR INSERT
-  WITH CHECK (auth.uid() = user_id);
+  WITH CHECK (auth.uid() = user_id AND workspace_role(workspace_id) IN ('owner', 'editor'));
 
--- Users can update their own subscriptions
-CREATE POLICY "Users can update their own subscriptions"
+-- Owners and editors can update subscriptions
+CREATE POLICY "Editors can update workspace subscriptions"
   ON subscriptions FOR UPDATE
-  USING (auth.uid() = user_id)
-  WITH CHECK (auth.uid() = user_id);
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
 
--- Users can delete their own subscriptions
-CREATE POLICY "Users can delete their own subscriptions"
+-- Owners and editors can delete subscriptions
+CREATE POLICY "Editors can delete workspace subscriptions"
   ON subscriptions FOR DELETE
-  USING (auth.uid() = user_id);
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- RLS Policies for subscription_price_history
+-- Members can see a workspace's price history. Rows are only written by the
+-- record_price_change() trigger, never edited, and removed along with their subscription.
+CREATE POLICY "Members can view workspace price history"
+  ON subscription_price_history FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+-- RLS Policies for payment_methods
+-- Members can see a workspace's payment methods; owners and editors manage them
+CREATE POLICY "Members can view workspace payment methods"
+  ON payment_methods FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace payment methods"
+  ON payment_methods FOR INSERT
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update workspace payment methods"
+  ON payment_methods FOR UPDATE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete workspace payment methods"
+  ON payment_methods FOR DELETE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- RLS Policies for payments
+-- Members can see a workspace's payments; owners and editors record them
+CREATE POLICY "Members can view workspace payments"
+  ON payments FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace payments"
+  ON payments FOR INSERT
+  WITH CHECK (auth.uid() = recorded_by AND workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update workspace payments"
+  ON payments FOR UPDATE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (auth.uid() = recorded_by AND workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete workspace payments"
+  ON payments FOR DELETE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- RLS Policies for categories
+-- Members can see a workspace's categories; owners and editors manage them
+CREATE POLICY "Members can view workspace categories"
+  ON categories FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can insert workspace categories"
+  ON categories FOR INSERT
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update workspace categories"
+  ON categories FOR UPDATE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+  WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete workspace categories"
+  ON categories FOR DELETE
+  USING (workspace_role(workspace_id) IN ('owner', 'editor'));
 
 -- RLS Policies for notification_settings
 -- Users can view their own settings
@@ -78,6 +395,31 @@ CREATE POLICY "Users can update their own notification settings"
   USING (auth.uid() = user_id)
   WITH CHECK (auth.uid() = user_id);
 
+-- RLS Policies for reminder_deliveries
+-- Users can see which reminders were sent to them; only the service role writes
+CREATE POLICY "Users can view their own reminder deliveries"
+  ON reminder_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for calendar_feeds
+-- Users manage their own feed token; the feed route reads it with the service role
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar feed"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed"
+  ON calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -87,14 +429,217 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Make the creator of a workspace its owner
+CREATE OR REPLACE FUNCTION add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO workspace_members (workspace_id, user_id, role, email)
+  VALUES (NEW.id, NEW.owner_id, 'owner', (SELECT lower(email) FROM auth.users WHERE id = NEW.owner_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_workspace_owner_member
+  AFTER INSERT ON workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION add_workspace_owner();
+
+-- Join a workspace with an invitation token. The invitation must be addressed to the
+-- signed-in user's email. Returns the workspace id.
+CREATE OR REPLACE FUNCTION accept_workspace_invitation(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite workspace_invitations%ROWTYPE;
+  user_email TEXT := lower(auth.jwt() ->> 'email');
+BEGIN
+  SELECT * INTO invite FROM workspace_invitations
+  WHERE token = invite_token AND accepted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invitation is invalid or has already been used';
+  END IF;
+
+  IF lower(invite.email) <> user_email THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, role, email)
+  VALUES (invite.workspace_id, auth.uid(), invite.role, user_email)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  WHERE workspace_members.role <> 'owner';
+
+  UPDATE workspace_invitations SET accepted_at = NOW() WHERE id = invite.id;
+
+  RETURN invite.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace a workspace's subscriptions with the given list (JSON rows using the column
+-- names above) in one transaction: rows missing from the list are deleted, changed rows
+-- updated and new rows inserted. Existing rows keep their id, user_id and created_at, and
+-- unchanged rows keep their updated_at. Runs with the caller's permissions, so the
+-- subscriptions policies still apply. Returns the number of rows inserted, updated and deleted.
+--
+-- With base_versions ({"<id>": "<updated_at>" or null for a new row}) only the rows named
+-- there are touched: those in subscription_rows are saved and the others deleted. Nothing
+-- is changed, and the error has code 40001, if any of them is no longer at that version.
+CREATE OR REPLACE FUNCTION save_workspace_subscriptions(target_workspace_id UUID, subscription_rows JSONB, base_versions JSONB DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  inserted_count INTEGER;
+  updated_count INTEGER;
+  deleted_count INTEGER;
+BEGIN
+  IF COALESCE(workspace_role(target_workspace_id), '') NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Only owners and editors can change this workspace''s subscriptions' USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE incoming ON COMMIT DROP AS
+    SELECT * FROM jsonb_populate_recordset(NULL::subscriptions, subscription_rows);
+
+  IF base_versions IS NOT NULL THEN
+    PERFORM 1 FROM subscriptions
+    WHERE workspace_id = target_workspace_id AND base_versions ? subscriptions.id::text
+    FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_each_text(base_versions) AS base(id, updated_at)
+      LEFT JOIN subscriptions ON subscriptions.id = base.id::uuid AND subscriptions.workspace_id = target_workspace_id
+      WHERE subscriptions.updated_at IS DISTINCT FROM base.updated_at::timestamptz
+    ) THEN
+      RAISE EXCEPTION 'Subscriptions were changed since they were last synced' USING ERRCODE = '40001';
+    END IF;
+  END IF;
+
+  DELETE FROM subscriptions
+  WHERE workspace_id = target_workspace_id
+    AND (base_versions IS NULL OR base_versions ? subscriptions.id::text)
+    AND NOT EXISTS (SELECT 1 FROM incoming WHERE incoming.id = subscriptions.id);
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  UPDATE subscriptions SET
+    name = incoming.name,
+    cost = incoming.cost,
+    currency = incoming.currency,
+    renewal_date = incoming.renewal_date,
+    cycle = incoming.cycle,
+    interval_count = incoming.interval_count,
+    interval_unit = incoming.interval_unit,
+    status = incoming.status,
+    category = incoming.category,
+    trial_start_date = incoming.trial_start_date,
+    trial_end_date = incoming.trial_end_date,
+    post_trial_cost = incoming.post_trial_cost,
+    cancellation_date = incoming.cancellation_date,
+    active_until = incoming.active_until,
+    split = incoming.split,
+    payment_method_id = incoming.payment_method_id
+  FROM incoming
+  WHERE subscriptions.id = incoming.id
+    AND subscriptions.workspace_id = target_workspace_id
+    AND (
+      subscriptions.name, subscriptions.cost, subscriptions.currency,
+      subscriptions.renewal_date, subscriptions.cycle, subscriptions.interval_count,
+      subscriptions.interval_unit, subscriptions.status, subscriptions.category,
+      subscriptions.trial_start_date, subscriptions.trial_end_date,
+      subscriptions.post_trial_cost, subscriptions.cancellation_date,
+      subscriptions.active_until, subscriptions.split, subscriptions.payment_method_id
+    ) IS DISTINCT FROM (
+      incoming.name, incoming.cost, incoming.currency, incoming.renewal_date,
+      incoming.cycle, incoming.interval_count, incoming.interval_unit, incoming.status,
+      incoming.category, incoming.trial_start_date, incoming.trial_end_date,
+      incoming.post_trial_cost, incoming.cancellation_date, incoming.active_until,
+      incoming.split, incoming.payment_method_id
+    );
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  INSERT INTO subscriptions (
+    id, user_id, workspace_id,
+    name, cost, currency, renewal_date, cycle, interval_count, interval_unit, status,
+    category, trial_start_date, trial_end_date, post_trial_cost, cancellation_date,
+    active_until, split, payment_method_id
+  )
+  SELECT
+    COALESCE(incoming.id, uuid_generate_v4()), auth.uid(), target_workspace_id,
+    incoming.name, incoming.cost, incoming.currency, incoming.renewal_date,
+    incoming.cycle, incoming.interval_count, incoming.interval_unit, incoming.status,
+    incoming.category, incoming.trial_start_date, incoming.trial_end_date,
+    incoming.post_trial_cost, incoming.cancellation_date, incoming.active_until,
+    incoming.split, incoming.payment_method_id
+  FROM incoming
+  WHERE incoming.id IS NULL OR NOT EXISTS (SELECT 1 FROM subscriptions WHERE subscriptions.id = incoming.id);
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('inserted', inserted_count, 'updated', updated_count, 'deleted', deleted_count);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Record the old and new price in subscription_price_history whenever an update changes
+-- what a subscription bills at (cost, currency, cycle or custom interval), whichever way it
+-- was saved. Trials are priced at their post-trial cost, so converting one is not a change.
+CREATE OR REPLACE FUNCTION record_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_price DECIMAL(10, 2) := CASE WHEN OLD.status = 'Trial' AND OLD.post_trial_cost IS NOT NULL THEN OLD.post_trial_cost ELSE OLD.cost END;
+  new_price DECIMAL(10, 2) := CASE WHEN NEW.status = 'Trial' AND NEW.post_trial_cost IS NOT NULL THEN NEW.post_trial_cost ELSE NEW.cost END;
+  old_count INTEGER := CASE WHEN OLD.cycle = 'Custom' THEN OLD.interval_count END;
+  old_unit TEXT := CASE WHEN OLD.cycle = 'Custom' THEN OLD.interval_unit END;
+  new_count INTEGER := CASE WHEN NEW.cycle = 'Custom' THEN NEW.interval_count END;
+  new_unit TEXT := CASE WHEN NEW.cycle = 'Custom' THEN NEW.interval_unit END;
+BEGIN
+  IF (old_price, OLD.currency, OLD.cycle, old_count, old_unit)
+     IS DISTINCT FROM (new_price, NEW.currency, NEW.cycle, new_count, new_unit) THEN
+    INSERT INTO subscription_price_history (
+      subscription_id, workspace_id, changed_by,
+      old_cost, old_currency, old_cycle, old_interval_count, old_interval_unit,
+      new_cost, new_currency, new_cycle, new_interval_count, new_interval_unit
+    ) VALUES (
+      NEW.id, NEW.workspace_id, auth.uid(),
+      old_price, OLD.currency, OLD.cycle, old_count, old_unit,
+      new_price, NEW.currency, NEW.cycle, new_count, new_unit
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_subscription_price_change
+  AFTER UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_price_change();
+
 -- Triggers to automatically update updated_at
 CREATE TRIGGER update_subscriptions_updated_at
   BEFORE UPDATE ON subscriptions
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payment_methods_updated_at
+  BEFORE UPDATE ON payment_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_notification_settings_updated_at
   BEFORE UPDATE ON notification_settings
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Publish subscription changes over Supabase Realtime so open pages on other devices
+-- update live (events are still filtered by the subscriptions policies)
+ALTER PUBLICATION supabase_realtime ADD TABLE subscriptions;